@@ -0,0 +1,119 @@
+/**
+ * Times the work the editor does for each frame of a drag, each keystroke in a
+ * label and each structural edit, on a long Penn Treebank sentence:
+ *
+ *   npm run benchmark -- --words 300
+ *
+ * Rendering is left out; with memoized nodes and edges only the ones that
+ * changed are drawn again. A step passes when its median fits in one frame.
+ */
+import { parseArgs } from 'node:util';
+import { performance } from 'node:perf_hooks';
+import { TreeState } from '@/types/tree';
+import { DEFAULT_TAG_SET } from '@/lib/tagset';
+import { DEFAULT_TREEBANK_OPTIONS, parsePennTreebank, treebankToTree } from '@/lib/treebank';
+import { applyNodeUpdate } from '@/lib/projection';
+import { applyLayout, structureKey } from '@/lib/layout';
+import { wrapInParent } from '@/lib/operations';
+import { validateTree } from '@/lib/validate';
+import { checkBinding } from '@/lib/binding';
+import { relationHighlights } from '@/lib/relations';
+import { getHiddenIds, getRoofs } from '@/lib/structure';
+import { indexTree } from '@/lib/treeIndex';
+import { createHistory, pushHistory } from '@/lib/history';
+
+// One frame at 60 frames per second
+const FRAME_BUDGET_MS = 1000 / 60;
+// Untimed runs first, so the engine has compiled the code as it would have during a session
+const WARMUP_RUNS = 10;
+const DIMENSIONS = { width: 1200, height: 800 };
+
+const CLAUSE = '(S (NP-SBJ (DT the) (JJ old) (NN dog)) (VP (VBD chased) (NP (DT a) (NN cat)) (PP (IN into) (NP (DT the) (NN garden)))))';
+const CLAUSE_WORDS = 9;
+
+// Clauses joined by "and" until the sentence has `words` words
+const benchmarkSentence = (words: number) => {
+  const clauses = [CLAUSE];
+  let count = CLAUSE_WORDS;
+  while (count + CLAUSE_WORDS + 1 <= words) {
+    clauses.push('(CC and)', CLAUSE);
+    count += CLAUSE_WORDS + 1;
+  }
+  const padding = Array.from({ length: words - count }, () => '(RB today)');
+  return `( (S ${clauses.join(' ')} ${padding.length ? `(ADVP ${padding.join(' ')})` : ''}) )`;
+};
+
+// What the editor derives from the tree on every render
+const deriveView = (state: TreeState) => {
+  indexTree(state.nodes, state.edges);
+  getRoofs(state.nodes, state.edges);
+  getHiddenIds(state.nodes, state.edges);
+  validateTree(state.nodes, state.edges);
+  checkBinding(state.nodes, state.edges, state.movements, state.tagSet);
+  structureKey(state.nodes, state.edges);
+  if (state.selected.length === 1) relationHighlights(state.nodes, state.edges, state.tagSet, 'c-command', state.selected[0]);
+};
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+const time = (name: string, runs: number, step: (i: number) => void) => {
+  for (let i = 0; i < WARMUP_RUNS; i++) step(i);
+  const samples: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    step(i);
+    samples.push(performance.now() - start);
+  }
+  const ms = median(samples);
+  process.stdout.write(`${ms <= FRAME_BUDGET_MS ? 'ok  ' : 'SLOW'}  ${name.padEnd(28)}${ms.toFixed(2).padStart(8)} ms median, ${Math.max(...samples).toFixed(2)} ms max\n`);
+  return ms <= FRAME_BUDGET_MS;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      words: { type: 'string', default: '300' },
+      runs: { type: 'string', default: '60' },
+    },
+  });
+  const words = Number(values.words);
+  const runs = Number(values.runs);
+
+  const [item] = parsePennTreebank(benchmarkSentence(words));
+  const tree = treebankToTree(item, DIMENSIONS, DEFAULT_TAG_SET, DEFAULT_TREEBANK_OPTIONS);
+  let state: TreeState = {
+    ...tree,
+    ...applyLayout({ ...tree }, DIMENSIONS),
+    tagSet: DEFAULT_TAG_SET,
+    dependencies: [],
+    selected: [],
+    error: '',
+    linking: null,
+  };
+  process.stdout.write(`${tree.nodes.filter(n => n.isLeaf).length} words, ${state.nodes.length} nodes, ${state.edges.length} edges\n\n`);
+
+  const dragged = state.nodes.find(n => !n.isLeaf && n.label === 'NP')!;
+  state = { ...state, selected: [dragged.id] };
+  let history = createHistory(state);
+
+  const results = [
+    time('drag frame', runs, i => {
+      const node = history.present.nodes.find(n => n.id === dragged.id)!;
+      history = pushHistory(history, applyNodeUpdate(history.present, { ...node, x: node.x + (i % 2 ? 3 : -3) }), `move-${dragged.id}`);
+      deriveView(history.present);
+    }),
+    time('label keystroke', runs, i => {
+      const node = history.present.nodes.find(n => n.id === dragged.id)!;
+      history = pushHistory(history, applyNodeUpdate(history.present, { ...node, label: i % 2 ? 'NP' : 'DP' }), `label-${dragged.id}`);
+      deriveView(history.present);
+    }),
+    time('structural edit and layout', runs, () => {
+      const leaves = state.nodes.filter(n => n.isLeaf).slice(0, 2).map(n => n.id);
+      const edited = wrapInParent(state, leaves);
+      deriveView({ ...edited, ...applyLayout(edited, DIMENSIONS) });
+    }),
+  ];
+  if (results.some(ok => !ok)) process.exit(1);
+};
+
+main();
@@ -0,0 +1,136 @@
+/**
+ * Converts tree files between formats without a browser:
+ *
+ *   npm run convert -- --to forest trees/*.txt --out-dir build/latex
+ *   npm run convert -- --from ptb --to conllu < corpus.mrg > corpus.conllu
+ *
+ * The input format is taken from each file's extension unless --from is given.
+ * Without files, one input is read from stdin and written to stdout.
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, extname, join, dirname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { TagSet, TreeModel } from '@/types/tree';
+import { TAG_SET_PRESETS, DEFAULT_TAG_SET } from '@/lib/tagset';
+import { DEFAULT_TREEBANK_OPTIONS } from '@/lib/treebank';
+import {
+  DEFAULT_FORMAT_OPTIONS, FormatError, FormatOptions, TREE_FORMATS, TreeFormat, droppedFields, formatFromFilename, readTrees,
+  writeTrees,
+} from '@/lib/formats';
+import { applyLayout } from '@/lib/layout';
+
+const USAGE = `Usage: npm run convert -- --to <format> [options] [files...]
+
+Options:
+  --from <format>     Input format (default: from the file extension)
+  --to <format>       Output format
+  --out-dir <dir>     Directory for output files (default: next to each input)
+  --tag-set <id>      Tag set for parts of speech and projections (${TAG_SET_PRESETS.map(t => t.id).join(', ')})
+  --features          Write features and theta roles into LaTeX and SVG output
+  --layout            Tidy the layout before writing
+  --no-empty          Leave out Penn Treebank traces and null elements
+  --punctuation       Keep Penn Treebank punctuation
+  --help              Show this help
+
+Formats:
+${TREE_FORMATS.map(f => `  ${f.value.padEnd(12)}${f.label}${f.readable ? '' : ' (output only)'}`).join('\n')}
+`;
+
+const isFormat = (value: string | undefined): value is TreeFormat => TREE_FORMATS.some(f => f.value === value);
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n`);
+  process.exit(2);
+};
+
+const outputExtension = (format: TreeFormat) => TREE_FORMATS.find(f => f.value === format)!.extensions[0];
+
+// Conversions that lose something still write their output, with a warning naming what was left out
+const convert = (source: string, text: string, from: TreeFormat, to: TreeFormat, options: FormatOptions, layout: boolean): string[] => {
+  let trees: TreeModel[] = readTrees(text, from, options);
+  const dropped = droppedFields(trees, to, options);
+  if (dropped.length) {
+    const label = TREE_FORMATS.find(f => f.value === to)!.label;
+    process.stderr.write(`${source}: warning: ${label} cannot hold the ${dropped.join(', ')}; they were left out\n`);
+  }
+  if (layout) trees = trees.map(tree => ({ ...tree, ...applyLayout(tree, options.dimensions) }));
+  const multiple = TREE_FORMATS.find(f => f.value === to)!.multiple;
+  return multiple ? [writeTrees(trees, to, options)] : trees.map(tree => writeTrees([tree], to, options));
+};
+
+const main = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'out-dir': { type: 'string' },
+      'tag-set': { type: 'string' },
+      features: { type: 'boolean', default: false },
+      layout: { type: 'boolean', default: false },
+      'no-empty': { type: 'boolean', default: false },
+      punctuation: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  const to = values.to;
+  if (!isFormat(to)) return fail(`Unknown or missing --to format "${to ?? ''}"\n\n${USAGE}`);
+  if (values.from !== undefined && !isFormat(values.from)) return fail(`Unknown --from format "${values.from}"`);
+
+  let tagSet: TagSet = DEFAULT_TAG_SET;
+  if (values['tag-set']) {
+    tagSet = TAG_SET_PRESETS.find(t => t.id === values['tag-set']) ?? fail(`Unknown tag set "${values['tag-set']}"`);
+  }
+  const options: FormatOptions = {
+    ...DEFAULT_FORMAT_OPTIONS,
+    tagSet,
+    features: values.features,
+    treebank: { ...DEFAULT_TREEBANK_OPTIONS, emptyElements: !values['no-empty'], punctuation: values.punctuation },
+  };
+
+  if (!positionals.length) {
+    const from = values.from ?? fail('Reading from stdin needs --from');
+    try {
+      const outputs = convert('stdin', readFileSync(0, 'utf8'), from as TreeFormat, to, options, values.layout);
+      process.stdout.write(outputs.join('\n'));
+    } catch (err) {
+      if (!(err instanceof FormatError)) throw err;
+      fail(`stdin: ${err.message}`);
+    }
+    return;
+  }
+
+  let failed = 0;
+  positionals.forEach(file => {
+    const from = (values.from as TreeFormat | undefined) ?? formatFromFilename(file);
+    if (!from) {
+      process.stderr.write(`${file}: cannot tell the format from the extension; use --from\n`);
+      failed++;
+      return;
+    }
+    try {
+      const outputs = convert(file, readFileSync(file, 'utf8'), from, to, options, values.layout);
+      const dir = values['out-dir'] ?? dirname(file);
+      const stem = basename(file, extname(file));
+      mkdirSync(dir, { recursive: true });
+      outputs.forEach((output, i) => {
+        const target = join(dir, `${stem}${outputs.length > 1 ? `-${i + 1}` : ''}${outputExtension(to)}`);
+        writeFileSync(target, output);
+        process.stdout.write(`${file} → ${target}\n`);
+      });
+    } catch (err) {
+      // Unreadable files are reported like malformed ones, and the other files still convert
+      if (!(err instanceof FormatError || (err as NodeJS.ErrnoException).code)) throw err;
+      process.stderr.write(`${file}: ${(err as Error).message}\n`);
+      failed++;
+    }
+  });
+  if (failed) process.exit(1);
+};
+
+main();
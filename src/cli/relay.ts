@@ -0,0 +1,165 @@
+/**
+ * A self-hosted relay for collaborative editing:
+ *
+ *   npm run relay -- --port 8787
+ *
+ * Clients join a room by name. The relay gives each a site number, forwards
+ * tree operations and selections to the rest of the room, and keeps the latest
+ * operation for every field so that late joiners receive the current tree.
+ * Rooms live in memory until the relay stops.
+ */
+import { parseArgs } from 'node:util';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ClientMessage, Presence, ServerMessage, SyncOp, compareStamps } from '@/lib/collab';
+
+const USAGE = `Usage: npm run relay -- [options]
+
+Options:
+  --port <number>     Port to listen on (default: 8787)
+  --help              Show this help
+`;
+
+interface Room {
+  nextSite: number;
+  // The newest operation for each key and field
+  ops: Map<string, SyncOp>;
+  clients: Map<WebSocket, Presence>;
+}
+
+const rooms = new Map<string, Room>();
+
+const sendTo = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, from: WebSocket, message: ServerMessage) => {
+  room.clients.forEach((_, socket) => {
+    if (socket !== from) sendTo(socket, message);
+  });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSyncOp = (op: unknown): op is SyncOp =>
+  isObject(op) && typeof op.key === 'string' && typeof op.field === 'string'
+  && isObject(op.stamp) && Number.isFinite(op.stamp.clock) && Number.isFinite(op.stamp.site);
+
+// Only the parts of a presence other clients draw; the site is set by the relay
+const readPresence = (value: unknown): Omit<Presence, 'site'> | null => {
+  if (!isObject(value)) return null;
+  return {
+    name: typeof value.name === 'string' ? value.name : 'Anonymous',
+    selected: Array.isArray(value.selected) ? value.selected.filter((id): id is number => Number.isFinite(id)) : [],
+    linking: Number.isFinite(value.linking) ? value.linking as number : null,
+  };
+};
+
+// Messages are checked field by field; anything malformed is ignored, and invalid ops are dropped
+const parseMessage = (data: unknown): ClientMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(String(data));
+  } catch {
+    return null;
+  }
+  if (!isObject(message)) return null;
+  switch (message.type) {
+    case 'join':
+      return typeof message.room === 'string'
+        ? { type: 'join', room: message.room, name: typeof message.name === 'string' ? message.name : '' }
+        : null;
+    case 'ops':
+      return Array.isArray(message.ops) ? { type: 'ops', ops: message.ops.filter(isSyncOp) } : null;
+    case 'presence': {
+      const presence = readPresence(message.presence);
+      return presence ? { type: 'presence', presence: { ...presence, site: 0 } } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const handleConnection = (socket: WebSocket) => {
+  let room: Room | null = null;
+
+  const receive = (message: ClientMessage) => {
+    if (message.type === 'join') {
+      if (room) return;
+      const name = message.room.trim() || 'default';
+      room = rooms.get(name) ?? { nextSite: 1, ops: new Map(), clients: new Map() };
+      rooms.set(name, room);
+      const presence: Presence = { site: room.nextSite++, name: message.name || 'Anonymous', selected: [], linking: null };
+      sendTo(socket, {
+        type: 'welcome',
+        site: presence.site,
+        ops: Array.from(room.ops.values()),
+        peers: Array.from(room.clients.values()),
+      });
+      room.clients.set(socket, presence);
+      broadcast(room, socket, { type: 'presence', presence });
+      return;
+    }
+    if (!room) return;
+
+    if (message.type === 'ops') {
+      if (!message.ops.length) return;
+      message.ops.forEach(op => {
+        const key = `${op.key}|${op.field}`;
+        const current = room!.ops.get(key);
+        if (!current || compareStamps(current.stamp, op.stamp) < 0) room!.ops.set(key, op);
+      });
+      broadcast(room, socket, { type: 'ops', ops: message.ops });
+    } else if (message.type === 'presence') {
+      // Clients cannot speak for another site
+      const presence = { ...message.presence, site: room.clients.get(socket)!.site };
+      room.clients.set(socket, presence);
+      broadcast(room, socket, { type: 'presence', presence });
+    }
+  };
+
+  // One bad frame must not take the relay, and every room on it, down
+  socket.on('message', data => {
+    try {
+      const message = parseMessage(data);
+      if (message) receive(message);
+    } catch (err) {
+      process.stderr.write(`Ignored a message that could not be handled: ${(err as Error).message}\n`);
+    }
+  });
+
+  socket.on('close', () => {
+    const presence = room?.clients.get(socket);
+    if (!room || !presence) return;
+    room.clients.delete(socket);
+    broadcast(room, socket, { type: 'leave', site: presence.site });
+  });
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8787' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    process.stderr.write(`Invalid --port "${values.port}"\n`);
+    process.exit(2);
+  }
+
+  const server = new WebSocketServer({ port });
+  server.on('connection', handleConnection);
+  server.on('listening', () => process.stdout.write(`Sync relay listening on ws://localhost:${port}\n`));
+  server.on('error', err => {
+    process.stderr.write(`${err.message}\n`);
+    process.exit(1);
+  });
+};
+
+main();
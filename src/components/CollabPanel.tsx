@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Users, Unplug } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Presence, peerColor } from '@/lib/collab';
+import { CollabStatus } from '@/hooks/useCollaboration';
+
+interface CollabPanelProps {
+  status: CollabStatus;
+  peers: Presence[];
+  onConnect: (url: string, room: string, name: string) => void;
+  onDisconnect: () => void;
+}
+
+const DEFAULT_SERVER = 'ws://localhost:8787';
+
+const CollabPanel: React.FC<CollabPanelProps> = ({ status, peers, onConnect, onDisconnect }) => {
+  const [server, setServer] = useState(DEFAULT_SERVER);
+  const [room, setRoom] = useState('');
+  const [name, setName] = useState('');
+
+  const offline = status === 'offline';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-semibold">Collaborate</span>
+      <Input value={server} onChange={e => setServer(e.target.value)} disabled={!offline}
+        className="h-8 w-48" aria-label="Sync server address" />
+      <Input value={room} onChange={e => setRoom(e.target.value)} disabled={!offline}
+        placeholder="Room" className="h-8 w-32" aria-label="Room" />
+      <Input value={name} onChange={e => setName(e.target.value)} disabled={!offline}
+        placeholder="Your name" className="h-8 w-32" aria-label="Your name" />
+      {offline ? (
+        <Button variant="outline" size="sm" onClick={() => onConnect(server.trim(), room.trim(), name.trim())}
+          disabled={!server.trim() || !room.trim()}
+          title="Join the room; an empty room takes this tree, otherwise the room's tree opens">
+          <Users /> Connect
+        </Button>
+      ) : (
+        <Button variant="outline" size="sm" onClick={onDisconnect} title="Leave the room and keep a copy of the tree">
+          <Unplug /> {status === 'connecting' ? 'Connecting…' : 'Disconnect'}
+        </Button>
+      )}
+      {status === 'online' && (
+        <span className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          {peers.length ? peers.map(peer => (
+            <span key={peer.site} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: peerColor(peer.site) }} />
+              {peer.name}
+            </span>
+          )) : 'Nobody else is here yet'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default CollabPanel;
@@ -0,0 +1,133 @@
+import React, { useState, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Upload } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TagSet } from '@/types/tree';
+import { Corpus, CorpusError, CorpusTree, corpusTree, readCorpus } from '@/lib/corpus';
+import { DEFAULT_TREEBANK_OPTIONS, TreebankOptions } from '@/lib/treebank';
+
+interface CorpusPanelProps {
+  tagSet: TagSet;
+  dimensions: { width: number; height: number };
+  onOpen: (tree: CorpusTree) => void;
+  onError: (message: string) => void;
+}
+
+// Long corpora list only the first matches; searching narrows them down
+const MAX_LISTED = 200;
+
+const CorpusPanel: React.FC<CorpusPanelProps> = ({ tagSet, dimensions, onOpen, onError }) => {
+  const [corpus, setCorpus] = useState<Corpus | null>(null);
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState<number | null>(null);
+  const [options, setOptions] = useState<TreebankOptions>(DEFAULT_TREEBANK_OPTIONS);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const importFile = async (file: File) => {
+    try {
+      setCorpus(readCorpus(file.name, await file.text()));
+      setQuery('');
+      setCurrent(null);
+    } catch (err) {
+      if (!(err instanceof CorpusError)) throw err;
+      onError(err.message);
+    }
+  };
+
+  const open = (index: number) => {
+    if (!corpus) return;
+    setCurrent(index);
+    onOpen(corpusTree(corpus.sentences[index], dimensions, tagSet, options));
+  };
+
+  const needle = query.trim().toLowerCase();
+  const matches = (corpus?.sentences || [])
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !needle || entry.text.toLowerCase().includes(needle));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold">Corpus</span>
+        <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()}
+          title="Open a Penn Treebank (.mrg) or CoNLL-U (.conllu) file">
+          <Upload /> Open File
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".mrg,.ptb,.tree,.trees,.conllu,.conll,.txt"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+        {corpus && (
+          <>
+            <span className="text-sm text-muted-foreground">
+              {corpus.name}: {corpus.sentences.length} sentences ({corpus.format === 'ptb' ? 'Penn Treebank' : 'CoNLL-U'})
+            </span>
+            <Button variant="outline" size="icon" className="h-8 w-8" title="Previous sentence"
+              disabled={current === null || current === 0} onClick={() => current !== null && open(current - 1)}>
+              <ChevronLeft />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" title="Next sentence"
+              disabled={current === corpus.sentences.length - 1} onClick={() => open(current === null ? 0 : current + 1)}>
+              <ChevronRight />
+            </Button>
+            {corpus.format === 'ptb' && (
+              <>
+                <label className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.emptyElements}
+                    onChange={e => setOptions({ ...options, emptyElements: e.target.checked })}
+                  />
+                  Traces and empty elements
+                </label>
+                <label className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.punctuation}
+                    onChange={e => setOptions({ ...options, punctuation: e.target.checked })}
+                  />
+                  Punctuation
+                </label>
+              </>
+            )}
+          </>
+        )}
+      </div>
+      {corpus && (
+        <div className="flex flex-col gap-2 border rounded-lg p-3 text-sm">
+          <Input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search sentences..."
+            className="h-8 max-w-md"
+          />
+          <ol className="flex flex-col max-h-64 overflow-y-auto">
+            {matches.slice(0, MAX_LISTED).map(({ entry, index }) => (
+              <li key={index}>
+                <button
+                  className={`w-full text-left px-2 py-1 rounded hover:bg-slate-100 truncate ${index === current ? 'bg-slate-100 font-semibold' : ''}`}
+                  onClick={() => open(index)}
+                >
+                  <span className="text-muted-foreground mr-2">{index + 1}</span>{entry.text}
+                </button>
+              </li>
+            ))}
+          </ol>
+          {matches.length === 0 && <p className="text-muted-foreground">No sentence contains &quot;{query}&quot;.</p>}
+          {matches.length > MAX_LISTED && (
+            <p className="text-muted-foreground">Showing {MAX_LISTED} of {matches.length} sentences; search to narrow the list.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorpusPanel;
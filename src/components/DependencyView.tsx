@@ -0,0 +1,237 @@
+import React, { useRef } from 'react';
+import { Download, GitBranch, Trash2, Upload } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { DependencyType, TextDirection, TreeNodeType } from '@/types/tree';
+import { UD_RELATIONS, dependencyIssues, getWords } from '@/lib/dependency';
+import { ConlluParseError, ConlluSentence, parseConllu, serializeConllu } from '@/lib/conllu';
+import { downloadBlob } from '@/lib/svgExport';
+import { detectDirection } from '@/lib/direction';
+
+interface DependencyViewProps {
+  nodes: TreeNodeType[];
+  dependencies: DependencyType[];
+  // Right to left puts the first word on the right
+  direction: TextDirection;
+  readOnly: boolean;
+  onSetDependency: (dependent: number, head: number | null, relation: string, historyKey?: string) => void;
+  onRemoveDependency: (dependent: number) => void;
+  onConvert: () => void;
+  onImport: (sentence: ConlluSentence, total: number) => void;
+  onError: (message: string) => void;
+}
+
+const WORD_GAP = 24;
+const ARC_STEP = 22;
+const MAX_ARC_HEIGHT = 220;
+
+const arcHeight = (distance: number) => Math.min(MAX_ARC_HEIGHT, 24 + ARC_STEP * distance);
+
+const DependencyView: React.FC<DependencyViewProps> = ({
+  nodes, dependencies, direction, readOnly, onSetDependency, onRemoveDependency, onConvert, onImport, onError,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const words = getWords(nodes);
+  const position = new Map(words.map((w, i) => [w.id, i]));
+  const arcOf = new Map(dependencies.map(d => [d.dependent, d]));
+  const issues = dependencyIssues(words, dependencies);
+
+  // Words sit side by side, each as wide as its word or tag
+  const centers: number[] = [];
+  let cursor = WORD_GAP;
+  words.forEach(word => {
+    const width = Math.max(word.label.length, (word.pos || '').length) * 8 + 16;
+    centers.push(cursor + width / 2);
+    cursor += width + WORD_GAP;
+  });
+  const arcs = dependencies.filter(d => position.has(d.dependent) && (d.head === null || position.has(d.head)));
+  const tallest = Math.max(40, ...arcs.map(d =>
+    arcHeight(d.head === null ? words.length : Math.abs(position.get(d.head)! - position.get(d.dependent)!))));
+  const baseline = tallest + 40;
+  const width = Math.max(cursor, 200);
+  if (direction === 'rtl') centers.forEach((center, i) => { centers[i] = width - center; });
+  const height = baseline + 40;
+
+  const importFile = async (file: File) => {
+    try {
+      const sentences = parseConllu(await file.text());
+      if (!sentences.length) {
+        onError(`"${file.name}" contains no sentences`);
+        return;
+      }
+      onImport(sentences[0], sentences.length);
+    } catch (err) {
+      if (!(err instanceof ConlluParseError)) throw err;
+      onError(`Could not import "${file.name}": ${err.message}`);
+    }
+  };
+
+  const exportConllu = () => {
+    downloadBlob(new Blob([serializeConllu(nodes, dependencies)], { type: 'text/plain' }), 'sentence.conllu');
+  };
+
+  const exportSvg = () => {
+    if (!svgRef.current) return;
+    const svg = new XMLSerializer().serializeToString(svgRef.current);
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'dependencies.svg');
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {!readOnly && (
+          <>
+            <Button variant="outline" size="sm" onClick={onConvert} disabled={!words.length}
+              title="Replace the arcs with ones derived from the phrase structure by head rules">
+              <GitBranch /> From Constituency
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+              <Upload /> Import CoNLL-U
+            </Button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".conllu,.conll,.txt"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+        <Button variant="outline" size="sm" onClick={exportConllu} disabled={!words.length}>
+          <Download /> CoNLL-U
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportSvg} disabled={!words.length}>
+          <Download /> SVG
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" width={width} height={height} viewBox={`0 0 ${width} ${height}`}
+          className="bg-white" fontFamily="sans-serif">
+          <defs>
+            <marker id="dependency-arrowhead" viewBox="0 0 10 10" refX="9" refY="5"
+              markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#0f766e" />
+            </marker>
+          </defs>
+          {arcs.map(arc => {
+            const to = centers[position.get(arc.dependent)!];
+            const y = baseline - 18;
+            if (arc.head === null) {
+              const top = baseline - tallest;
+              return (
+                <g key={arc.id}>
+                  <line x1={to} y1={top} x2={to} y2={y} stroke="#0f766e" strokeWidth="1.5" markerEnd="url(#dependency-arrowhead)" />
+                  <text x={to} y={top - 4} textAnchor="middle" fontSize="11" fill="#0f766e">{arc.relation}</text>
+                </g>
+              );
+            }
+            // Start and end slightly off center so arcs leaving and entering a word do not overlap
+            const from = centers[position.get(arc.head)!] + (arc.head < arc.dependent ? 4 : -4);
+            const end = to + (from < to ? -4 : 4);
+            const h = arcHeight(Math.abs(position.get(arc.head)! - position.get(arc.dependent)!));
+            return (
+              <g key={arc.id}>
+                <path d={`M ${from} ${y} C ${from} ${y - h}, ${end} ${y - h}, ${end} ${y}`}
+                  stroke="#0f766e" strokeWidth="1.5" fill="none" markerEnd="url(#dependency-arrowhead)" />
+                <text x={(from + end) / 2} y={y - h * 0.75 - 4} textAnchor="middle" fontSize="11" fill="#0f766e"
+                  stroke="white" strokeWidth="3" paintOrder="stroke">
+                  {arc.relation}
+                </text>
+              </g>
+            );
+          })}
+          {words.map((word, i) => (
+            <g key={word.id}>
+              <text x={centers[i]} y={baseline} textAnchor="middle" fontSize="14" fontWeight="500" direction={detectDirection(word.label)}>{word.label}</text>
+              <text x={centers[i]} y={baseline + 18} textAnchor="middle" fontSize="11" fill="#64748b">{word.pos}</text>
+            </g>
+          ))}
+        </svg>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc list-inside">
+          {issues.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+
+      {!readOnly && words.length > 0 && (
+        <table className="text-sm w-full max-w-2xl">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-normal w-8">#</th>
+              <th className="font-normal">Word</th>
+              <th className="font-normal">POS</th>
+              <th className="font-normal">Head</th>
+              <th className="font-normal">Relation</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {words.map((word, i) => {
+              const arc = arcOf.get(word.id);
+              return (
+                <tr key={word.id}>
+                  <td>{i + 1}</td>
+                  <td>{word.label}</td>
+                  <td className="text-muted-foreground">{word.pos}</td>
+                  <td>
+                    <select
+                      value={!arc ? '' : arc.head === null ? 'root' : String(arc.head)}
+                      onChange={e => {
+                        const value = e.target.value;
+                        if (!value) {
+                          onRemoveDependency(word.id);
+                          return;
+                        }
+                        const head = value === 'root' ? null : Number(value);
+                        onSetDependency(word.id, head, arc?.relation || (head === null ? 'root' : 'dep'));
+                      }}
+                      className="h-8 border rounded px-1"
+                      aria-label={`Head of ${word.label}`}
+                    >
+                      <option value="">—</option>
+                      <option value="root">ROOT</option>
+                      {words.filter(other => other.id !== word.id).map(other => (
+                        <option key={other.id} value={other.id}>{position.get(other.id)! + 1} {other.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      value={arc?.relation || ''}
+                      disabled={!arc}
+                      list="ud-relations"
+                      onChange={e => arc && onSetDependency(word.id, arc.head, e.target.value, `relation-${word.id}`)}
+                      className="h-8 border rounded px-2 w-32"
+                      aria-label={`Relation of ${word.label}`}
+                    />
+                  </td>
+                  <td>
+                    {arc && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Remove arc"
+                        onClick={() => onRemoveDependency(word.id)}>
+                        <Trash2 />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <datalist id="ud-relations">
+        {UD_RELATIONS.map(relation => <option key={relation} value={relation} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default DependencyView;
@@ -1,83 +1,176 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ArrowDown, X } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { ArrowDown, ArrowLeftRight, Eye, LayoutGrid, Maximize, Pencil, Plus, Redo2, Triangle, Undo2, X, ZoomIn, ZoomOut } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-// import { TreeNodeType, EdgeType, TreeState } from '@/types/tree';
+import { TreeNodeType, EdgeType, MovementType, TagSet, TextDirection, TreeState } from '@/types/tree';
+import { posOptions } from '@/lib/tagset';
+import { applyNodeUpdate } from '@/lib/projection';
+import { TRACE_KINDS, TraceKind, addMovement, insertTrace, traceMovements } from '@/lib/movement';
+import { OperationError, deleteEdge, deleteSubtree, insertOnEdge, linkNodes, reparent, spliceNode, swapSibling, toggleCollapsed, wrapInParent } from '@/lib/operations';
+import { Direction, navigate } from '@/lib/navigation';
+import { getHiddenIds, getParent, getRoofs, getRoots } from '@/lib/structure';
+import { indexTree } from '@/lib/treeIndex';
+import { useControlPointDrag } from '@/hooks/useControlPointDrag';
+import { usePanZoom } from '@/hooks/usePanZoom';
+import { useFrameThrottle } from '@/hooks/useFrameThrottle';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { peerColor } from '@/lib/collab';
+import { RELATION_COLORS, Relation, RelationHighlight, getDominatingPath, relationHighlights } from '@/lib/relations';
+import { checkBinding, coindexNodes } from '@/lib/binding';
+import { clientToLocal, fitView, revealPoint, treeBounds, zoomAt } from '@/lib/viewport';
+import { defaultControlPoint, defaultMovementControlPoint, edgePath, movementPath, roofPath } from '@/lib/geometry';
+import { BracketParseError, parseBracketNotation, serializeBracketNotation } from '@/lib/bracket';
+import { createHistory, endGesture, mapEntries, pushHistory, redo, replacePresent, undo } from '@/lib/history';
+import { PersistedTree, SavedTree, StorageError, loadDraft, migrateTree, saveDraft, toPersistedTree } from '@/lib/storage';
+import TreeLibrary from '@/components/TreeLibrary';
+import ExportPanel from '@/components/ExportPanel';
+import ValidationPanel from '@/components/ValidationPanel';
+import TagSetEditor from '@/components/TagSetEditor';
+import SharePanel from '@/components/SharePanel';
+import ParserPanel from '@/components/ParserPanel';
+import ExercisePanel from '@/components/ExercisePanel';
+import DependencyView from '@/components/DependencyView';
+import CorpusPanel from '@/components/CorpusPanel';
+import NodeInspector from '@/components/NodeInspector';
+import Minimap from '@/components/Minimap';
+import CollabPanel from '@/components/CollabPanel';
+import RelationPanel from '@/components/RelationPanel';
+import { featureRows } from '@/lib/features';
+import { CorpusTree } from '@/lib/corpus';
+import { Bracket, DiffStatus, Exercise, gradeTree } from '@/lib/exercise';
+import { PermalinkError, decodePermalink, encodePermalink, parsePermalinkHash, permalinkHash } from '@/lib/permalink';
+import { validateTree } from '@/lib/validate';
+import { constituencyToDependencies, removeDependency, setDependency } from '@/lib/dependency';
+import { ConlluSentence, conlluToTree } from '@/lib/conllu';
+import { LayoutMode, applyLayout, structureKey } from '@/lib/layout';
+import { createEmptyTree, createTree } from '@/lib/tree';
+import { TEXT_DIRECTIONS, mirrorNodes, treeDirection } from '@/lib/direction';
+import {
+  DEFAULT_TOKENIZE_OPTIONS, EMPTY_CATEGORIES, PUNCTUATION_MODES, PunctuationMode, TokenizeOptions,
+  deleteWord, insertEmptyCategory, insertWord, mergeLeaves, retokenize, splitLeaf, toggleEmpty,
+} from '@/lib/tokens';
 
+// Phrase structure trees or word-to-word dependency arcs over the same words
+type SyntaxMode = 'constituency' | 'dependency';
 
-interface TreeNodeType {
-  id: number;
-  label: string;
-  x: number;
-  y: number;
-  isLeaf: boolean;
-  pos?: string;
-  projectedParent?: number | null;
-}
+const describeNode = (node: TreeNodeType) => (node.isLeaf
+  ? `Word ${node.label}${node.pos ? `, ${node.pos}` : ', no part of speech'}`
+  : `Phrase ${node.label || 'unlabeled'}`);
 
-interface EdgeControlPoint {
-  x: number;
-  y: number;
-}
+const DIFF_COLORS: Record<DiffStatus, { fill: string; stroke: string }> = {
+  correct: { fill: '#dcfce7', stroke: '#16a34a' },
+  extra: { fill: '#fee2e2', stroke: '#dc2626' },
+};
 
-interface EdgeType {
-  id: string;
-  from: number;
-  to: number;
-  controlPoint?: EdgeControlPoint;   // Add this to your type
-}
-interface TreeState {
-  sentence: string;
-  nodes: TreeNodeType[];
-  edges: EdgeType[];
-  nextId: number;
-  selected: number[];
-  error: string;
-  linking: number | null;
-}
-// Separate projecting and non-projecting POS types
-const PROJECTING_POS = { N: 'NP', V: 'VP', A: 'AP', P: 'PP', Adv: 'AdvP' };
-const NON_PROJECTING_POS = ['aux', 'Det','PNP'];
+// Stacks overlapping missing constituents on separate rows below the words
+const stackBrackets = (brackets: Bracket[]): number[] => {
+  const rows: number[] = [];
+  brackets.forEach((bracket, i) => {
+    let row = 0;
+    while (brackets.slice(0, i).some((other, j) => rows[j] === row && other.start < bracket.end && bracket.start < other.end)) {
+      row++;
+    }
+    rows.push(row);
+  });
+  return rows;
+};
+
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// Positions are stored in reading order, so on a mirrored tree the left arrow key moves towards later words
+const MIRRORED_DIRECTIONS: Record<Direction, Direction> = { up: 'up', down: 'down', left: 'right', right: 'left' };
+
+// Node boxes in tree coordinates, the same at every zoom level
+const NODE_FONT_SIZE = 14;
+const LEAF_MIN_WIDTH = 60;
+const PHRASE_MIN_WIDTH = 36;
+const LABEL_PADDING = 12;
+// Zoom factor of the zoom buttons and keys
+const ZOOM_STEP = 1.25;
 
 interface TreeNodeProps {
   node: TreeNodeType;
   selected: boolean;
   isLinking: boolean;
-  dimensions: { width: number; height: number };
-  totalLeafNodes: number; 
-  onSelect: () => void;
-  onUpdate: (node: TreeNodeType) => void;
+  hasIssue: boolean;
+  // Exercise grading: whether this phrase, or this word's POS, matches the answer key
+  diff?: DiffStatus;
+  tagSet: TagSet;
+  // Drawn in a right-to-left tree, whose drawing is mirrored; the node itself is flipped back to read normally
+  mirrored: boolean;
+  onSelect: (id: number) => void;
+  onUpdate: (node: TreeNodeType, historyKey?: string) => void;
+  onDragEnd: () => void;
   onLink: (id: number) => void;
+  onDrop: (id: number, targetId: number) => void;
+  // Keyboard focus cursor and the field being edited from the keyboard
+  focused: boolean;
+  editing: 'label' | 'pos' | null;
+  onEditEnd: () => void;
+  // Draw the node's features as a matrix under it
+  showFeatures: boolean;
+  // Words under a triangle show no part of speech
+  underRoof: boolean;
+  onToggleCollapsed: (id: number) => void;
+  // How the node relates to the selected node, when relations are highlighted
+  relation?: RelationHighlight;
+  // Collaborators who have this node selected or are linking from it
+  peers: { site: number; name: string; linking: boolean }[];
 }
 
-const TreeNode: React.FC<TreeNodeProps> = ({ node, selected, isLinking, dimensions, totalLeafNodes, onSelect, onUpdate, onLink }) => {
+const TreeNode: React.FC<TreeNodeProps> = ({ node, selected, isLinking, hasIssue, diff, tagSet, mirrored, focused, editing, onSelect, onUpdate, onDragEnd, onLink, onDrop, onEditEnd, showFeatures, underRoof, onToggleCollapsed, relation, peers }) => {
   const textRef = useRef<HTMLInputElement>(null);
-  // const [width, setWidth] = useState(node.isLeaf ? 80 : 40);
+  const posRef = useRef<HTMLSelectElement>(null);
+  const groupRef = useRef<SVGGElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  
+  const moved = useRef(false);
+
+  // Pointer position in tree coordinates: those of the panned and zoomed group holding the nodes
+  const pointerInTree = (e: { clientX: number; clientY: number }) => {
+    const world = groupRef.current?.parentNode as SVGGraphicsElement | null;
+    return world ? clientToLocal(world, e.clientX, e.clientY) : { x: e.clientX, y: e.clientY };
+  };
+
   const handleDragStart = (e: React.MouseEvent) => {
     if (isLinking) return; // Don't start drag if we're in linking mode
     setIsDragging(true);
+    moved.current = false;
+    const pointer = pointerInTree(e);
     setDragStart({ 
-      x: e.clientX - node.x, 
-      y: e.clientY - node.y 
+      x: pointer.x - node.x, 
+      y: pointer.y - node.y 
     });
   };
 
+  // Mouse moves can outpace the screen; the tree is updated once per frame with the latest position
+  const moveTo = useFrameThrottle((x: number, y: number) => onUpdate({ ...node, x, y }, `move-${node.id}`));
+
   const handleDrag = (e: React.MouseEvent) => {
     if (!isDragging) return;
     e.preventDefault();
-    onUpdate({
-      ...node,
-      x: e.clientX - dragStart.x,
-      y: e.clientY - dragStart.y
-    });
+    moved.current = true;
+    const pointer = pointerInTree(e);
+    moveTo.schedule(pointer.x - dragStart.x, pointer.y - dragStart.y);
   };
 
-  const handleDragEnd = () => {
+  const handleDragEnd = (e: MouseEvent) => {
     setIsDragging(false);
+    moveTo.flush();
+    // Dropping onto another node makes it the new parent
+    if (moved.current) {
+      const target = document.elementsFromPoint(e.clientX, e.clientY)
+        .map(el => el.closest('[data-node-id]'))
+        .find(el => el && Number(el.getAttribute('data-node-id')) !== node.id);
+      if (target) onDrop(node.id, Number(target.getAttribute('data-node-id')));
+    }
+    onDragEnd();
   };
 
   useEffect(() => {
@@ -90,32 +183,89 @@ const TreeNode: React.FC<TreeNodeProps> = ({ node, selected, isLinking, dimensio
         window.removeEventListener('mouseup', handleDragEnd);
       };
     }
-  }, [isDragging, handleDrag]);
-  // Calculate spacing between nodes
-  const spacing = dimensions.width / (totalLeafNodes + 1);
-  // Make box width smaller than spacing to prevent overlap
-  const baseWidth = spacing * 0.8;  // Use 80% of available space
-  
-  // Calculate dynamic font size based on available width
-  const fontSize = Math.min(14, Math.max(11, Math.floor(baseWidth / 10))); // between 11px and 14px
-  
-  const [width, setWidth] = useState(node.isLeaf ? baseWidth : baseWidth * 0.6);
-  
+  }, [isDragging, handleDrag, handleDragEnd]);
+  // Boxes are sized in tree coordinates from the label alone; zooming scales them with everything else
+  const minWidth = node.isLeaf ? LEAF_MIN_WIDTH : PHRASE_MIN_WIDTH;
+  const [width, setWidth] = useState(minWidth);
+
   useEffect(() => {
     if (textRef.current) {
-      const minWidth = node.isLeaf ? baseWidth : baseWidth * 0.6;
-      // Add padding proportional to the base width
-      setWidth(Math.max(minWidth, textRef.current.scrollWidth + (baseWidth * 0.1)));
+      setWidth(Math.max(minWidth, textRef.current.scrollWidth + LABEL_PADDING));
+    }
+  }, [node.label, minWidth]);
+
+  useEffect(() => {
+    if (editing === 'label') {
+      textRef.current?.focus();
+      textRef.current?.select();
+    } else if (editing === 'pos') {
+      posRef.current?.focus();
     }
-  }, [node.label, node.isLeaf, baseWidth]);
+  }, [editing]);
+
+  const matrixRows = featureRows(node);
+  const matrixWidth = Math.max(0, ...matrixRows.map(row => row.length)) * 6 + 10;
+  const matrixHeight = matrixRows.length * 12 + 4;
+
+  // Enter or Escape hands the keyboard back to the canvas
+  const handleFieldKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === 'Escape') {
+      e.preventDefault();
+      onEditEnd();
+    }
+  };
 
   return (
-    <g transform={`translate(${node.x},${node.y})`} className="cursor-move" onClick={isLinking ? onLink.bind(null, node.id) : onSelect} onMouseDown={handleDragStart}>
+    <g
+      ref={groupRef}
+      id={`tree-node-${node.id}`}
+      data-node-id={node.id}
+      role="treeitem"
+      aria-selected={selected}
+      aria-label={describeNode(node)}
+      transform={`translate(${node.x},${node.y})${mirrored ? ' scale(-1,1)' : ''}`}
+      className="cursor-move"
+      onClick={() => (isLinking ? onLink(node.id) : onSelect(node.id))}
+      onMouseDown={handleDragStart}
+    >
+      {node.note && <title>{node.note}</title>}
+      {focused && (
+        <rect
+          x={-width/2 - 4} y="-16"
+          width={width + 8} height={node.isLeaf ? 60 : 32}
+          fill="none" stroke="#2563eb" strokeWidth="2" rx="6"
+        />
+      )}
+      {relation && (
+        <rect
+          x={-width/2 - 4} y="-16"
+          width={width + 8} height="32"
+          fill={RELATION_COLORS[relation]} fillOpacity="0.12"
+          stroke={RELATION_COLORS[relation]} strokeWidth="2" rx="6"
+          pointerEvents="none"
+        />
+      )}
+      {peers.map((peer, i) => (
+        <rect
+          key={peer.site}
+          x={-width/2 - 7 - i * 3} y={-19 - i * 3}
+          width={width + 14 + i * 6} height={38 + i * 6}
+          fill="none" stroke={peerColor(peer.site)} strokeWidth="2" rx="8"
+          strokeDasharray={peer.linking ? "5 3" : undefined}
+          pointerEvents="none"
+        />
+      ))}
+      {peers.length > 0 && (
+        <text x={-width/2 - 7} y={-23 - (peers.length - 1) * 3} fontSize="10" fill={peerColor(peers[0].site)} pointerEvents="none">
+          {peers.map(peer => peer.name).join(', ')}
+        </text>
+      )}
       <rect
         x={-width/2} y="-12"
         width={width} height="24"
-        fill={selected ? "#e2e8f0" : isLinking ? "#fef3c7" : "white"}
-        stroke={selected ? "#3b82f6" : isLinking ? "#d97706" : "none"}
+        fill={selected ? "#e2e8f0" : isLinking ? "#fef3c7" : diff ? DIFF_COLORS[diff].fill : "white"}
+        stroke={selected ? "#3b82f6" : isLinking ? "#d97706" : diff ? DIFF_COLORS[diff].stroke : hasIssue ? "#dc2626" : "none"}
+        strokeDasharray={!selected && !isLinking && !diff && hasIssue ? "4 2" : undefined}
         strokeWidth="2" rx="4"
       />
       <foreignObject x={-width/2} y="-12" width={width} height="24" pointerEvents="none">
@@ -123,23 +273,35 @@ const TreeNode: React.FC<TreeNodeProps> = ({ node, selected, isLinking, dimensio
           <Input
             ref={textRef}
             value={node.label}
-            onChange={e => onUpdate({ ...node, label: e.target.value })}
-            style={{ fontSize: `${fontSize}px` }}  // Dynamic font size
+            dir="auto"
+            onChange={e => onUpdate({ ...node, label: e.target.value }, `label-${node.id}`)}
+            style={{ fontSize: `${NODE_FONT_SIZE}px` }}
             className="w-full h-5 text-center bg-transparent border-none font-medium p-0"
             onClick={e => e.stopPropagation()}
+            onKeyDown={handleFieldKeyDown}
+            onBlur={() => editing === 'label' && onEditEnd()}
           />
         </div>
       </foreignObject>
-      {node.isLeaf && (
+      {node.index && (
+        <text x={width / 2 + 2} y="10" fontSize="11" fontStyle="italic" fill="#475569">{node.index}</text>
+      )}
+      {node.functionTags?.length ? (
+        <text x={width / 2 + 2} y="-4" fontSize="10" fill="#64748b">-{node.functionTags.join('-')}</text>
+      ) : null}
+      {node.isLeaf && !underRoof && (
         <foreignObject x={-width/2} y="15" width={width} height="24" onClick={e => e.stopPropagation()}>
           <select
+            ref={posRef}
             value={node.pos || ''}
             onChange={e => onUpdate({ ...node, pos: e.target.value })}
-            style={{ fontSize: `${fontSize}px` }}  // Match font size for POS selector
+            onKeyDown={handleFieldKeyDown}
+            onBlur={() => editing === 'pos' && onEditEnd()}
+            style={{ fontSize: `${NODE_FONT_SIZE}px` }}
             className="w-full h-6 border rounded"
           >
             <option value="">POS</option>
-            {[...NON_PROJECTING_POS, ...Object.keys(PROJECTING_POS)].map(p => (
+            {posOptions(tagSet, node.pos).map(p => (
               <option key={p} value={p}>{p}</option>
             ))}
           </select>
@@ -151,76 +313,62 @@ const TreeNode: React.FC<TreeNodeProps> = ({ node, selected, isLinking, dimensio
           <ArrowDown size={10} className="transform translate-x-[-5px] translate-y-[-5px]" />
         </g>
       )}
+      {!node.isLeaf && (
+        <g transform={`translate(${-width / 2 - 10},0)`} onClick={e => { e.stopPropagation(); onToggleCollapsed(node.id); }}>
+          <title>{node.collapsed ? 'Expand the triangle' : 'Collapse into a triangle'}</title>
+          <circle r="8" fill={node.collapsed ? '#e2e8f0' : 'white'} stroke="#64748b" strokeWidth="1.5" />
+          <Triangle size={10} className="transform translate-x-[-5px] translate-y-[-5px]" />
+        </g>
+      )}
+      {showFeatures && matrixRows.length > 0 && (
+        <g transform={`translate(0,${node.isLeaf ? 44 : 30})`} pointerEvents="none">
+          <path
+            d={`M ${-matrixWidth / 2 + 3} 0 h -3 v ${matrixHeight} h 3 M ${matrixWidth / 2 - 3} 0 h 3 v ${matrixHeight} h -3`}
+            stroke="#334155" fill="none"
+          />
+          {matrixRows.map((row, i) => (
+            <text key={row} x={-matrixWidth / 2 + 4} y={12 + i * 12} fontSize="10" fill="#334155">{row}</text>
+          ))}
+        </g>
+      )}
     </g>
   );
 };
+// Re-rendered only when its own props change, so dragging one node redraws just that node and its edges
+const MemoTreeNode = React.memo(TreeNode);
+
 interface EdgeProps {
   from: TreeNodeType;
   to: TreeNodeType;
   edge: EdgeType; 
+  hasIssue: boolean;
+  // On the selected node's dominating path
+  highlighted: boolean;
   onUpdate: (edge: EdgeType) => void; 
-  onDelete: () => void;
+  onDragEnd: () => void;
+  onDelete: (id: string) => void;
+  onInsert: (id: string) => void;
 }
 
-const Edge: React.FC<EdgeProps> = ({ from, to, edge, onDelete, onUpdate }) => {
+const Edge: React.FC<EdgeProps> = ({ from, to, edge, hasIssue, highlighted, onDelete, onInsert, onUpdate, onDragEnd }) => {
   const [isHovered, setIsHovered] = useState(false);
-  const [isDragging, setIsDragging] = useState(false);
   const svgRef = useRef<SVGGElement>(null);
+  const { startDrag } = useControlPointDrag(
+    svgRef,
+    controlPoint => onUpdate({ ...edge, controlPoint }),
+    onDragEnd
+  );
 
-  // Default control point is midway between start and end
-  const defaultControlPoint: EdgeControlPoint = {
-    x: (from.x + to.x) / 2,
-    y: (from.y + to.y) / 2
-  };
-
-  const controlPoint = edge.controlPoint || defaultControlPoint;
-
-  const handleControlPointDragStart = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setIsDragging(true);
-  };
-
-  const handleControlPointDrag = (e: MouseEvent) => {
-    if (!isDragging) return;
-    
-    const svgElement = svgRef.current?.closest('svg');
-    if (!svgElement) return;
-    
-    const svgRect = svgElement.getBoundingClientRect();
-    const newControlPoint = {
-      x: e.clientX - svgRect.left,
-      y: e.clientY - svgRect.top
-    };
-    
-    onUpdate({ ...edge, controlPoint: newControlPoint });
-  };
-
-  const handleControlPointDragEnd = () => {
-    setIsDragging(false);
-  };
-
-  useEffect(() => {
-    if (isDragging) {
-      window.addEventListener('mousemove', handleControlPointDrag);
-      window.addEventListener('mouseup', handleControlPointDragEnd);
-      return () => {
-        window.removeEventListener('mousemove', handleControlPointDrag);
-        window.removeEventListener('mouseup', handleControlPointDragEnd);
-      };
-    }
-  }, [isDragging, handleControlPointDrag]);
+  const controlPoint = edge.controlPoint || defaultControlPoint(from, to);
 
-  // Create quadratic curve path
-  const pathD = `M ${from.x},${from.y + 10} ` +
-                `Q ${controlPoint.x},${controlPoint.y} ` +
-                `${to.x},${to.y - 10}`;
+  const pathD = edgePath(from, to, edge);
 
   return (
     <g ref={svgRef} onMouseEnter={() => setIsHovered(true)} onMouseLeave={() => setIsHovered(false)}>
       <path 
         d={pathD} 
-        stroke="black" 
-        strokeWidth="1.5" 
+        stroke={hasIssue ? "#dc2626" : highlighted ? RELATION_COLORS.path : "black"}
+        strokeWidth={highlighted ? 3 : 1.5}
         fill="none" 
       />
       {isHovered && (
@@ -228,13 +376,68 @@ const Edge: React.FC<EdgeProps> = ({ from, to, edge, onDelete, onUpdate }) => {
           {/* Single draggable control point */}
           <g 
             transform={`translate(${controlPoint.x},${controlPoint.y})`}
-            onMouseDown={handleControlPointDragStart}
+            onMouseDown={startDrag}
             className="cursor-move"
           >
             <circle r="4" fill="blue" stroke="white" strokeWidth="2" />
           </g>
           {/* Delete button */}
-          <g transform={`translate(${(from.x + to.x)/2},${(from.y + to.y)/2})`} onClick={onDelete}>
+          <g transform={`translate(${(from.x + to.x)/2},${(from.y + to.y)/2})`} onClick={() => onDelete(edge.id)}>
+            <circle r="8" fill="white" stroke="red" strokeWidth="2" className="cursor-pointer" />
+            <X size={10} className="transform translate-x-[-5px] translate-y-[-5px] cursor-pointer" />
+          </g>
+          {/* Insert an intermediate node */}
+          <g transform={`translate(${(from.x + to.x)/2 + 20},${(from.y + to.y)/2})`} onClick={() => onInsert(edge.id)}>
+            <circle r="8" fill="white" stroke="green" strokeWidth="2" className="cursor-pointer" />
+            <Plus size={10} className="transform translate-x-[-5px] translate-y-[-5px] cursor-pointer" />
+          </g>
+        </>
+      )}
+    </g>
+  );
+};
+
+const MemoEdge = React.memo(Edge);
+
+interface MovementArrowProps {
+  from: TreeNodeType;
+  to: TreeNodeType;
+  movement: MovementType;
+  onUpdate: (movement: MovementType) => void;
+  onDragEnd: () => void;
+  onDelete: (id: string) => void;
+}
+
+const MovementArrow: React.FC<MovementArrowProps> = ({ from, to, movement, onDelete, onUpdate, onDragEnd }) => {
+  const [isHovered, setIsHovered] = useState(false);
+  const svgRef = useRef<SVGGElement>(null);
+  const { startDrag } = useControlPointDrag(
+    svgRef,
+    controlPoint => onUpdate({ ...movement, controlPoint }),
+    onDragEnd
+  );
+
+  const controlPoint = movement.controlPoint || defaultMovementControlPoint(from, to);
+
+  return (
+    <g ref={svgRef} onMouseEnter={() => setIsHovered(true)} onMouseLeave={() => setIsHovered(false)}>
+      <path
+        d={movementPath(from, to, movement)}
+        stroke="#7c3aed"
+        strokeWidth="1.5"
+        fill="none"
+        markerEnd="url(#movement-arrowhead)"
+      />
+      {isHovered && (
+        <>
+          <g
+            transform={`translate(${controlPoint.x},${controlPoint.y})`}
+            onMouseDown={startDrag}
+            className="cursor-move"
+          >
+            <circle r="4" fill="#7c3aed" stroke="white" strokeWidth="2" />
+          </g>
+          <g transform={`translate(${controlPoint.x + 16},${controlPoint.y})`} onClick={() => onDelete(movement.id)}>
             <circle r="8" fill="white" stroke="red" strokeWidth="2" className="cursor-pointer" />
             <X size={10} className="transform translate-x-[-5px] translate-y-[-5px] cursor-pointer" />
           </g>
@@ -244,18 +447,79 @@ const Edge: React.FC<EdgeProps> = ({ from, to, edge, onDelete, onUpdate }) => {
   );
 };
 
+const MemoMovementArrow = React.memo(MovementArrow);
+
+// Shared by nodes no collaborator has selected, so memoized nodes see the same prop
+const NO_PEERS: TreeNodeProps['peers'] = [];
+
 const Editor: React.FC = () => {
-  const [state, setState] = useState<TreeState>({
-    sentence: '',
-    nodes: [],
-    edges: [],
-    nextId: 1,
-    selected: [],
-    error: '',
-    linking: null
+  const [history, setHistory] = useState(() => createHistory<TreeState>(createEmptyTree()));
+  const state = history.present;
+  // The latest tree for callbacks that are kept stable across renders, so memoized nodes and edges skip re-rendering
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Transient updates (selection, errors, layout) replace the present without an undo entry
+  const setState = useCallback((update: TreeState | ((prev: TreeState) => TreeState)) => {
+    setHistory(h => replacePresent(h, typeof update === 'function' ? update(h.present) : update));
+  }, []);
+
+  // Tree edits are recorded; edits sharing a key (one drag, one label being typed) form a single entry
+  const recordState = useCallback((update: (prev: TreeState) => TreeState, historyKey: string | null = null) => {
+    setHistory(h => pushHistory(h, update(h.present), historyKey));
+  }, []);
+
+  const clearTransient = (s: TreeState): TreeState => ({ ...s, selected: [], linking: null, error: '' });
+
+  const handleUndo = useCallback(() => {
+    setHistory(h => {
+      const next = undo(h);
+      return next === h ? h : replacePresent(next, clearTransient(next.present));
+    });
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setHistory(h => {
+      const next = redo(h);
+      return next === h ? h : replacePresent(next, clearTransient(next.present));
+    });
+  }, []);
+
+  const handleDragEnd = useCallback(() => setHistory(endGesture), []);
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const autosave = useRef<{ timer: ReturnType<typeof setTimeout> | null; tree: PersistedTree; activeId: string | null }>({
+    timer: null,
+    tree: toPersistedTree(state),
+    activeId,
   });
   const [dimensions, setDimensions] = useState({ width: 600, height: 400 });
+  const [bracketText, setBracketText] = useState('');
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('auto');
+  const [traceKind, setTraceKind] = useState<TraceKind>('t');
+  const [tokenOptions, setTokenOptions] = useState<TokenizeOptions>(DEFAULT_TOKENIZE_OPTIONS);
+  const [emptyCategory, setEmptyCategory] = useState(EMPTY_CATEGORIES[0]);
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<{ id: number; field: 'label' | 'pos' } | null>(null);
+  // The exercise being worked on, and whether its grading is shown on the tree
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [syntaxMode, setSyntaxMode] = useState<SyntaxMode>('constituency');
+  const [showFeatures, setShowFeatures] = useState(false);
+  const [relation, setRelation] = useState<Relation>('c-command');
+  const [showRelations, setShowRelations] = useState(true);
+  // Shared view-only links show the tree without any editing controls
+  const [viewOnly, setViewOnly] = useState(false);
+  // The URL hash is only rewritten once the tree from the link or the draft has been loaded
+  const [restored, setRestored] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { view, setView, isPanning, startPan } = usePanZoom(svgRef, syntaxMode === 'constituency');
+  // Collaborators' edits are carried into the undo entries; opening a room's tree starts a fresh history
+  const rebaseHistory = useCallback((update: ((entry: TreeState) => TreeState) | null) => {
+    setHistory(h => (update ? mapEntries(h, update) : createHistory(h.present)));
+  }, []);
+  const { status: collabStatus, peers, connect, disconnect } = useCollaboration(state, setState, rebaseHistory);
 
   useEffect(() => {
     const updateDimensions = () => {
@@ -273,203 +537,513 @@ const Editor: React.FC = () => {
     return () => window.removeEventListener('resize', updateDimensions);
   }, []);
 
+  // On load, open the tree in the URL hash if there is one and restore the autosaved draft otherwise
   useEffect(() => {
-    // const getChildren = (id: number) => 
-    //   state.edges.filter(e => e.from === id).map(e => state.nodes.find(n => n.id === e.to)!);
-    // const getParent = (id: number) => 
-    //   state.nodes.find(n => n.id === state.edges.find(e => e.to === id)?.from);
-    
-    // const TOP_Y = dimensions.height * 0.125;
-    // const BOTTOM_Y = dimensions.height * 0.875;
-    // const ROOT_X = dimensions.width / 2;
-  
-    const updatePositions = () => {
-      const getChildren = (id: number) => 
-        state.edges.filter(e => e.from === id).map(e => state.nodes.find(n => n.id === e.to)!);
-      const getParent = (id: number) => 
-        state.nodes.find(n => n.id === state.edges.find(e => e.to === id)?.from);
-      
-      // Calculate tree depth to adjust spacing
-      const calculateDepth = (nodeId: number, visited = new Set<number>()): number => {
-        if (visited.has(nodeId)) return 0;
-        visited.add(nodeId);
-        const children = getChildren(nodeId);
-        if (!children.length) return 0;
-        return 1 + Math.max(...children.map(child => calculateDepth(child.id, visited)));
-      };
-  
-      // Find root node (S)
-      const rootNode = state.nodes.find(n => n.label === 'S' && !getParent(n.id));
-      // Calculate tree depth for potential future use
-      if (rootNode) {
-        calculateDepth(rootNode.id);
+    const openPermalink = async () => {
+      const link = parsePermalinkHash(window.location.hash);
+      if (!link) return false;
+      try {
+        const tree = await decodePermalink(link.data);
+        setHistory(h => createHistory({ ...h.present, direction: undefined, ...tree, selected: [], linking: null, error: '' }));
+        setActiveId(null);
+        setViewOnly(link.mode === 'view');
+        return true;
+      } catch (err) {
+        if (!(err instanceof PermalinkError)) throw err;
+        setState(prev => ({ ...prev, error: `Could not open the shared tree: ${err.message}` }));
+        return false;
       }
+    };
 
-      // Adjust vertical spacing based on tree depth
-      const VERTICAL_GAP = dimensions.height * 0.1; // Increased from 0.15
-      const TOP_Y = dimensions.height * 0.1;  // Adjust as needed
-      const BOTTOM_Y = dimensions.height * 0.8; // Adjust as needed
-      const ROOT_X = dimensions.width / 2;
-  
-      setState(prev => {
-        let nodes = [...prev.nodes];
-        nodes = nodes.map(node => {
-          const children = getChildren(node.id);
-          const parent = getParent(node.id);
-          
-          let x = node.x;
-          let y = node.y;
-  
-          if (node.isLeaf) {
-            const leafNodes = nodes.filter(n => n.isLeaf);
-            const index = leafNodes.findIndex(n => n.id === node.id);
-            const spacing = dimensions.width / (leafNodes.length + 1);
-            x = spacing * (index + 1);
-            y = BOTTOM_Y;
-          } else if (node.label === 'S' && !parent) {
-            x = ROOT_X;
-            // Position S relative to highest non-S node
-            const highestY = Math.min(...nodes
-              .filter(n => n.id !== node.id)
-              .map(n => n.y));
-            y = Math.min(TOP_Y, highestY - VERTICAL_GAP);
-          } else if (children.length) {
-            x = (Math.min(...children.map(n => n.x)) + Math.max(...children.map(n => n.x))) / 2;
-            y = Math.min(...children.map(n => n.y)) - VERTICAL_GAP;
-          }
-  
-          return { ...node, x, y };
-        });
-  
-        return { ...prev, nodes };
-      });
+    const restoreDraft = () => {
+      const draft = loadDraft();
+      if (!draft) return;
+      try {
+        const tree = migrateTree(draft.tree, draft.version);
+        setHistory(h => createHistory({ ...h.present, direction: undefined, ...tree }));
+        setActiveId(draft.activeId);
+      } catch (err) {
+        if (!(err instanceof StorageError)) throw err;
+        setState(prev => ({ ...prev, error: `Could not restore draft: ${err.message}` }));
+      }
     };
-  
-    updatePositions();
-  }, [dimensions.width, dimensions.height, state.edges, state.nodes]); // Only depend on these specific values
+
+    openPermalink().then(opened => {
+      if (!opened) restoreDraft();
+      setRestored(true);
+    });
+    // A link pasted into the address bar of an open page
+    const handleHashChange = () => {
+      openPermalink();
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [setState]);
+
+  // Keep the URL hash in step with the tree, so the address bar always holds a permalink
+  useEffect(() => {
+    if (!restored) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const hash = state.nodes.length
+        ? permalinkHash(await encodePermalink(toPersistedTree(state)), viewOnly ? 'view' : 'edit')
+        : '';
+      const { pathname, search } = window.location;
+      if (!cancelled) window.history.replaceState(window.history.state, '', `${pathname}${search}${hash}`);
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [state, viewOnly, restored]);
+
+  // Autosave at most once a second, and on unload
+  useEffect(() => {
+    autosave.current.tree = toPersistedTree(state);
+    autosave.current.activeId = activeId;
+    if (autosave.current.timer) return;
+    autosave.current.timer = setTimeout(() => {
+      autosave.current.timer = null;
+      saveDraft(autosave.current.tree, autosave.current.activeId);
+    }, 1000);
+  }, [state, activeId]);
+
+  useEffect(() => {
+    const flush = () => saveDraft(autosave.current.tree, autosave.current.activeId);
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields to their native undo
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Re-run the tidy layout only when the structure or canvas changes, so drags are left alone
+  const layoutKey = useMemo(() => structureKey(state.nodes, state.edges), [state.nodes, state.edges]);
+  useEffect(() => {
+    if (layoutMode !== 'auto') return;
+    setState(prev => ({ ...prev, ...applyLayout(prev, dimensions) }));
+  }, [layoutKey, layoutMode, dimensions, setState]);
+
+  // Right-to-left trees are drawn mirrored across the canvas; node positions stay in reading order
+  const detectedDirection = useMemo(
+    () => treeDirection({ sentence: state.sentence, nodes: state.nodes }),
+    [state.sentence, state.nodes]
+  );
+  const direction = state.direction ?? detectedDirection;
+  const mirrored = direction === 'rtl';
+  const drawnNodes = (nodes: TreeNodeType[], treeDir: TextDirection) =>
+    (treeDir === 'rtl' ? mirrorNodes(nodes, dimensions.width) : nodes);
+
+  // Undefined goes back to the direction detected from the words
+  const changeDirection = (next: TextDirection | undefined) => {
+    recordState(prev => ({ ...prev, direction: next }));
+  };
+
+  const relayout = () => {
+    recordState(prev => ({ ...prev, ...applyLayout(prev, dimensions) }));
+  };
   
 
 
+  const openSavedTree = (entry: SavedTree) => {
+    try {
+      const tree = migrateTree(entry.tree, entry.version);
+      setHistory(h => createHistory({ ...h.present, direction: undefined, ...tree, selected: [], linking: null, error: '' }));
+      setActiveId(entry.id);
+    } catch (err) {
+      if (!(err instanceof StorageError)) throw err;
+      setState(prev => ({ ...prev, error: `Could not open "${entry.name}": ${err.message}` }));
+    }
+  };
+
+  const openCorpusTree = (tree: CorpusTree) => {
+    setHistory(h => createHistory({ ...h.present, direction: undefined, ...tree, selected: [], linking: null, error: '' }));
+    setActiveId(null);
+  };
+
   const initializeNodes = () => {
     if (!state.sentence.trim()) {
       setState(prev => ({ ...prev, error: 'Please enter a sentence first' }));
       return;
     }
-    const words = state.sentence.trim().split(/\s+/);
-    const spacing = dimensions.width / (words.length + 1);
-    
-    const nodes = [
-      ...words.map((word, i) => ({
-        id: i + 1,
-        label: word,
-        pos: '',
-        x: spacing * (i + 1),
-        y: dimensions.height * 0.875,
-        isLeaf: true,
-        projectedParent: null,
-      })),
-      { 
-        id: words.length + 1,
-        label: 'S',
-        x: dimensions.width / 2,
-        y: dimensions.height * 0.125,
-        isLeaf: false,
-      }
-    ];
+    startSentence(state.sentence);
+  };
 
-    setState(prev => ({
-      ...prev,
-      nodes,
-      nextId: words.length + 2,
+  // Keeps the tree and only changes the words that differ from the edited sentence
+  const updateWords = () => applyOperation(prev => retokenize(prev, prev.sentence, tokenOptions));
+
+  // Bare words under an S; `changes` lets an exercise bring its own tag set
+  const startSentence = (sentence: string, changes: Partial<TreeState> = {}) => {
+    const tree = createTree(sentence, dimensions, tokenOptions);
+
+    // Long sentences run past the canvas; show all of it
+    setView(fitView(treeBounds(drawnNodes(tree.nodes, treeDirection(tree))), dimensions));
+    // A new sentence starts a fresh history, in the direction it is written in
+    setHistory(h => createHistory({
+      ...h.present,
+      direction: undefined,
+      ...changes,
+      ...tree,
       selected: [],
-      edges: [],
       error: '',
+      linking: null,
     }));
   };
 
-  const handleNodeUpdate = (updatedNode: TreeNodeType) => {
-    setState(prev => {
-      const newState = { ...prev };
-      const oldNode = prev.nodes.find(n => n.id === updatedNode.id)!;
-      
-      // Handle POS changes for leaf nodes
-      if (updatedNode.isLeaf && oldNode.pos !== updatedNode.pos) {
-        // Remove old projection if it exists
-        if (oldNode.projectedParent) {
-          newState.nodes = newState.nodes.filter(n => n.id !== oldNode.projectedParent);
-          newState.edges = newState.edges.filter(e => e.from !== oldNode.projectedParent);
-        }
+  const startExercise = (next: Exercise) => {
+    startSentence(next.sentence, { tagSet: next.reference.tagSet });
+    setActiveId(null);
+    setExercise(next);
+    setShowDiff(false);
+  };
 
-        // Add new projection if needed
-        if (PROJECTING_POS[updatedNode.pos as keyof typeof PROJECTING_POS]) {
-          const projectedParent = {
-            id: prev.nextId,
-            label: PROJECTING_POS[updatedNode.pos as keyof typeof PROJECTING_POS],
-            x: updatedNode.x,
-            y: updatedNode.y - 60,
-            isLeaf: false,
-          };
-
-          newState.nodes = [...newState.nodes, projectedParent];
-          newState.edges = [...newState.edges, {
-            id: `${prev.nextId}-${updatedNode.id}`,
-            from: prev.nextId,
-            to: updatedNode.id
-          }];
-          updatedNode.projectedParent = prev.nextId;
-          newState.nextId = prev.nextId + 1;
-        }
-      }
+  // Replaces the tree with one given in bracket notation, as an undoable edit
+  const loadBrackets = (text: string) => {
+    try {
+      const parsed = parseBracketNotation(text, dimensions, state.tagSet);
+      recordState(prev => ({
+        ...prev,
+        ...parsed,
+        direction: undefined,
+        movements: traceMovements(parsed.nodes),
+        dependencies: [],
+        selected: [],
+        linking: null,
+        error: '',
+      }));
+    } catch (err) {
+      if (!(err instanceof BracketParseError)) throw err;
+      setState(prev => ({ ...prev, error: `Invalid bracket notation: ${err.message}` }));
+    }
+  };
 
-      // Update the node itself
-      newState.nodes = newState.nodes.map(n => 
-        n.id === updatedNode.id ? updatedNode : n
-      );
+  // Replaces the tree with the bare words and arcs of a CoNLL-U sentence
+  const importConllu = (sentence: ConlluSentence, total: number) => {
+    const imported = conlluToTree(sentence, dimensions, state.tagSet);
+    recordState(prev => ({
+      ...prev,
+      ...imported,
+      direction: undefined,
+      edges: [],
+      movements: [],
+      selected: [],
+      linking: null,
+      error: total > 1 ? `The file holds ${total} sentences; only the first was imported` : '',
+    }));
+  };
 
-      return newState;
-    });
+  const convertToDependencies = () => {
+    recordState(prev => ({
+      ...prev,
+      dependencies: constituencyToDependencies(prev.nodes, prev.edges, prev.tagSet),
+      error: '',
+    }));
   };
 
-  const handleLink = (fromId: number) => {
-    if (state.linking === fromId) {
+  const importBrackets = () => {
+    if (!bracketText.trim()) {
+      setState(prev => ({ ...prev, error: 'Please enter a bracketed tree first' }));
+      return;
+    }
+    loadBrackets(bracketText);
+  };
+
+  const exportBrackets = () => {
+    setBracketText(serializeBracketNotation(state.nodes, state.edges));
+  };
+
+  const handleNodeUpdate = useCallback((updatedNode: TreeNodeType, historyKey?: string) => {
+    recordState(prev => applyNodeUpdate(prev, updatedNode), historyKey);
+  }, [recordState]);
+
+  const handleLink = useCallback((fromId: number) => {
+    const { linking } = stateRef.current;
+    if (linking === fromId) {
       setState(prev => ({ ...prev, linking: null }));
-    } else if (state.linking !== null) {
-      setState(prev => ({
-        ...prev,
-        edges: [...prev.edges, { 
-          id: `${prev.linking}-${fromId}`, 
-          from: prev.linking!, 
-          to: fromId 
-        }],
-        linking: null,
-      }));
+    } else if (linking !== null) {
+      recordState(prev => ({ ...linkNodes(prev, prev.linking!, fromId), linking: null }));
     } else {
       setState(prev => ({ ...prev, linking: fromId }));
     }
-  };
+  }, [setState, recordState]);
 
   const addParent = () => {
     if (state.selected.length < 2) {
       setState(prev => ({ ...prev, error: 'Select at least 2 nodes to create a parent' }));
       return;
     }
+    recordState(prev => wrapInParent(prev, prev.selected));
+  };
+  // Structural edits can be refused (a cycle, a word as parent); the reason goes to the error banner
+  const applyOperation = useCallback((operation: (prev: TreeState) => TreeState) => {
+    try {
+      operation(stateRef.current);
+    } catch (err) {
+      if (!(err instanceof OperationError)) throw err;
+      setState(prev => ({ ...prev, error: err.message }));
+      return;
+    }
+    recordState(prev => ({ ...operation(prev), error: '' }));
+  }, [setState, recordState]);
+
+  const moveUnder = useCallback((id: number, parentId: number) => {
+    const { nodes, edges } = stateRef.current;
+    if (getParent(nodes, edges, id)?.id === parentId) return;
+    applyOperation(prev => reparent(prev, id, parentId));
+  }, [applyOperation]);
+
+  const index = useMemo(() => indexTree(state.nodes, state.edges), [state.nodes, state.edges]);
+  const selectedIds = useMemo(() => new Set(state.selected), [state.selected]);
+
+  // Triangles: hidden structure is not drawn, and the roof stands in for its edges
+  const roofs = useMemo(() => getRoofs(state.nodes, state.edges), [state.nodes, state.edges]);
+  const hiddenIds = useMemo(() => getHiddenIds(state.nodes, state.edges), [state.nodes, state.edges]);
+  const roofedIds = useMemo(() => new Set(Array.from(roofs.values()).flat().map(w => w.id)), [roofs]);
+
+  // The node the structure buttons act on: the single selected node
+  const target = state.selected.length === 1 ? index.nodeById.get(state.selected[0]) : undefined;
+  const targetWord = target?.isLeaf ? target : undefined;
+  const selectedWords = state.nodes.filter(n => n.isLeaf && selectedIds.has(n.id));
+  const hasWords = state.nodes.some(n => n.isLeaf);
+
+  const removeNode = (id: number, withSubtree: boolean) => {
+    const parent = getParent(state.nodes, state.edges, id);
+    recordState(prev => (withSubtree ? deleteSubtree(prev, id) : spliceNode(prev, id)));
+    if (focusedId === id) setFocusedId(parent?.id ?? null);
+  };
+
+  const insertAbove = (id: number) => {
+    const edge = state.edges.find(e => e.to === id);
+    if (!edge) {
+      setState(prev => ({ ...prev, error: 'Only nodes with a parent can get a node inserted above them' }));
+      return;
+    }
+    applyOperation(prev => insertOnEdge(prev, edge.id));
+  };
+
+  // Both movement actions take the origin first and the landing site second, in selection order
+  const addMovementArrow = () => {
+    if (state.selected.length !== 2) {
+      setState(prev => ({ ...prev, error: 'Select the trace position, then the landing site' }));
+      return;
+    }
+    const [from, to] = state.selected;
+    recordState(prev => ({ ...addMovement(prev, from, to), selected: [] }));
+  };
+
+  const addTrace = () => {
+    const [host, landing] = state.selected;
+    if (state.selected.length !== 2 || index.nodeById.get(host)?.isLeaf) {
+      setState(prev => ({ ...prev, error: 'Select the phrase that holds the trace, then the constituent that moved' }));
+      return;
+    }
+    recordState(prev => ({ ...insertTrace(prev, host, landing, traceKind), selected: [] }));
+  };
+
+  const endEditing = useCallback(() => {
+    setEditing(null);
+    svgRef.current?.focus();
+  }, []);
+
+  const canvasCenter = { x: dimensions.width / 2, y: dimensions.height / 2 };
+  const zoomBy = (factor: number) => setView(prev => zoomAt(prev, factor, canvasCenter));
+  const fitToTree = () => setView(fitView(treeBounds(drawnNodes(state.nodes.filter(n => !hiddenIds.has(n.id)), direction)), dimensions));
+
+  // Keyboard navigation scrolls the canvas to keep the focused node in sight
+  const focusNode = (id: number | null) => {
+    setFocusedId(id);
+    const node = id === null ? undefined : index.nodeById.get(id);
+    if (node) setView(prev => revealPoint(prev, dimensions, drawnNodes([node], direction)[0]));
+  };
+
+  const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+    // The label input and POS selector handle their own keys
+    if ((e.target as HTMLElement).closest('input, select')) return;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    // Zooming is also possible on a read-only tree
+    if (e.key === '+' || e.key === '=' || e.key === '-' || e.key === '0') {
+      e.preventDefault();
+      if (e.key === '0') fitToTree();
+      else zoomBy(e.key === '-' ? 1 / ZOOM_STEP : ZOOM_STEP);
+      return;
+    }
+    if (viewOnly) return;
+    const focused = focusedId === null ? undefined : index.nodeById.get(focusedId);
+
+    if (e.key in ARROW_DIRECTIONS) {
+      e.preventDefault();
+      const arrow = ARROW_DIRECTIONS[e.key];
+      const next = navigate(state.nodes, state.edges, focused?.id ?? null, mirrored ? MIRRORED_DIRECTIONS[arrow] : arrow);
+      if (next === null) return;
+      // Shift extends the selection over every node the cursor passes
+      if (e.shiftKey && focused) {
+        setState(prev => ({
+          ...prev,
+          selected: [...prev.selected, focused.id, next].filter((id, i, all) => all.indexOf(id) === i),
+        }));
+      }
+      focusNode(next);
+      return;
+    }
+
+    if (e.key === 'Home') {
+      e.preventDefault();
+      focusNode(getRoots(state.nodes, state.edges)[0]?.id ?? null);
+      return;
+    }
+    if (e.key === 'Escape') {
+      setState(prev => ({ ...prev, selected: [], linking: null }));
+      return;
+    }
+    if (!focused) return;
+
+    switch (e.key.toLowerCase()) {
+      case ' ':
+        e.preventDefault();
+        setState(prev => ({
+          ...prev,
+          selected: prev.selected.includes(focused.id)
+            ? prev.selected.filter(id => id !== focused.id)
+            : [...prev.selected, focused.id],
+        }));
+        break;
+      case 'enter':
+      case 'f2':
+        e.preventDefault();
+        setEditing({ id: focused.id, field: 'label' });
+        break;
+      case 'p':
+        if (focused.isLeaf) setEditing({ id: focused.id, field: 'pos' });
+        break;
+      case 'w': {
+        const childIds = state.selected.length ? state.selected : [focused.id];
+        recordState(prev => wrapInParent(prev, childIds));
+        setFocusedId(state.nextId);
+        break;
+      }
+      case 'l':
+        if (state.linking === null && focused.isLeaf) {
+          setState(prev => ({ ...prev, error: 'Words cannot dominate other nodes; start the link from a phrase' }));
+        } else {
+          handleLink(focused.id);
+        }
+        break;
+      case 'delete':
+      case 'backspace':
+        e.preventDefault();
+        removeNode(focused.id, e.shiftKey);
+        break;
+      case 'x': {
+        const edge = state.edges.find(edge => edge.to === focused.id);
+        if (edge) recordState(prev => deleteEdge(prev, edge.id));
+        break;
+      }
+      case 'i':
+        insertAbove(focused.id);
+        break;
+      case '[':
+      case ']':
+        applyOperation(prev => swapSibling(prev, focused.id, e.key === '[' ? 'left' : 'right'));
+        break;
+      case 't':
+        applyOperation(prev => toggleCollapsed(prev, focused.id));
+        break;
+    }
+  };
 
-    const selectedNodes = state.nodes.filter(n => state.selected.includes(n.id));
-    const x = (Math.min(...selectedNodes.map(n => n.x)) + Math.max(...selectedNodes.map(n => n.x))) / 2;
-    const y = Math.min(...selectedNodes.map(n => n.y)) - 60;
+  const focusedNode = focusedId === null ? undefined : index.nodeById.get(focusedId);
+  const announcement = focusedNode
+    ? [
+        describeNode(focusedNode),
+        !focusedNode.isLeaf && `${state.edges.filter(e => e.from === focusedNode.id).length} children`,
+        state.selected.includes(focusedNode.id) && 'selected',
+        state.linking !== null && 'linking',
+      ].filter(Boolean).join(', ')
+    : '';
 
+
+  const issues = useMemo(() => validateTree(state.nodes, state.edges), [state.nodes, state.edges]);
+  const issueNodeIds = new Set(issues.flatMap(issue => issue.nodeIds));
+  const issueEdgeIds = new Set(issues.flatMap(issue => issue.edgeIds));
+
+  // The selected node's structural relations, and the binding check of coindexed noun phrases
+  const highlights = useMemo(
+    () => (showRelations && target ? relationHighlights(state.nodes, state.edges, state.tagSet, relation, target.id) : new Map<number, RelationHighlight>()),
+    [showRelations, target, state.nodes, state.edges, state.tagSet, relation]
+  );
+  const pathEdgeIds = useMemo(() => {
+    if (!showRelations || !target) return new Set<string>();
+    const chain = [target.id, ...getDominatingPath(state.nodes, state.edges, target.id)];
+    return new Set(state.edges.filter(e => chain.some((id, i) => e.to === id && e.from === chain[i + 1])).map(e => e.id));
+  }, [showRelations, target, state.nodes, state.edges]);
+  const bindingIssues = useMemo(
+    () => checkBinding(state.nodes, state.edges, state.movements, state.tagSet),
+    [state.nodes, state.edges, state.movements, state.tagSet]
+  );
+
+  const grade = useMemo(
+    () => (exercise && showDiff ? gradeTree({ nodes: state.nodes, edges: state.edges }, exercise.reference) : null),
+    [exercise, showDiff, state.nodes, state.edges]
+  );
+  const missingRows = grade ? stackBrackets(grade.missing) : [];
+
+  // Collaborators' selections and links, per node
+  const peersByNode = useMemo(() => {
+    const byNode = new Map<number, TreeNodeProps['peers']>();
+    peers.forEach(peer => {
+      const ids = peer.linking === null ? peer.selected : [...peer.selected, peer.linking];
+      ids.filter((id, i) => ids.indexOf(id) === i).forEach(id => {
+        byNode.set(id, [...(byNode.get(id) || []), { site: peer.site, name: peer.name, linking: peer.linking === id }]);
+      });
+    });
+    return byNode;
+  }, [peers]);
+
+  const selectNode = useCallback((id: number) => {
+    setFocusedId(id);
     setState(prev => ({
       ...prev,
-      nodes: [...prev.nodes, { id: prev.nextId, label: 'New', x, y, isLeaf: false }],
-      edges: [
-        ...prev.edges,
-        ...selectedNodes.map(child => ({ id: `${prev.nextId}-${child.id}`, from: prev.nextId, to: child.id }))
-      ],
-      nextId: prev.nextId + 1,
-      selected: [],
+      selected: prev.selected.includes(id)
+        ? prev.selected.filter(s => s !== id)
+        : [...prev.selected, id]
     }));
-  };
-  const totalLeafNodes = state.nodes.filter(n => n.isLeaf).length;
+  }, [setState]);
+
+  const toggleNodeCollapsed = useCallback((id: number) => applyOperation(prev => toggleCollapsed(prev, id)), [applyOperation]);
+
+  const removeEdge = useCallback((id: string) => recordState(prev => deleteEdge(prev, id)), [recordState]);
+
+  const insertOnEdgeAt = useCallback((id: string) => applyOperation(prev => insertOnEdge(prev, id)), [applyOperation]);
+
+  const updateEdge = useCallback((updatedEdge: EdgeType) => recordState(prev => ({
+    ...prev,
+    edges: prev.edges.map(e => e.id === updatedEdge.id ? updatedEdge : e)
+  }), `curve-${updatedEdge.id}`), [recordState]);
+
+  const removeMovement = useCallback((id: string) => recordState(prev => ({
+    ...prev,
+    movements: prev.movements.filter(m => m.id !== id)
+  })), [recordState]);
+
+  const updateMovement = useCallback((updated: MovementType) => recordState(prev => ({
+    ...prev,
+    movements: prev.movements.map(m => m.id === updated.id ? updated : m)
+  }), `curve-${updated.id}`), [recordState]);
 
   return (
     <Card className="w-full">
@@ -477,59 +1051,478 @@ const Editor: React.FC = () => {
         <CardTitle>Linguistic Tree Diagram Editor</CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="flex gap-4 mb-4">
-          <Input
-            value={state.sentence}
-            onChange={e => setState(prev => ({ ...prev, sentence: e.target.value }))}
-            placeholder="Enter your sentence..."
-            className="flex-grow"
+        {viewOnly && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 border rounded-lg p-3 bg-slate-50 text-sm">
+            <Eye className="h-4 w-4" />
+            <span>You are viewing a shared tree. Changes are not possible in this view.</span>
+            <Button variant="outline" size="sm" className="ml-auto" onClick={() => setViewOnly(false)}>
+              <Pencil /> Edit a copy
+            </Button>
+          </div>
+        )}
+        {!viewOnly && (
+          <>
+          <div className="flex gap-4 mb-4">
+            <Input
+              value={state.sentence}
+              onChange={e => setState(prev => ({ ...prev, sentence: e.target.value }))}
+              placeholder="Enter your sentence..."
+              dir="auto"
+              className="flex-grow"
+            />
+            <Button onClick={initializeNodes}>Create Leaf Nodes</Button>
+            <Button variant="outline" onClick={updateWords} disabled={!hasWords}
+              title="Change only the words that differ from the sentence, keeping the tree above the rest">
+              Update Words
+            </Button>
+            <Button onClick={addParent} disabled={state.selected.length < 2}>
+              Add Parent ({state.selected.length})
+            </Button>
+            <Button variant="outline" size="icon" onClick={handleUndo} disabled={!history.past.length} title="Undo (Ctrl+Z)">
+              <Undo2 />
+            </Button>
+            <Button variant="outline" size="icon" onClick={handleRedo} disabled={!history.future.length} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 />
+            </Button>
+            <Button variant="outline" onClick={relayout} disabled={!state.nodes.length} title="Tidy up the whole tree">
+              <LayoutGrid /> Re-layout
+            </Button>
+            <select
+              value={layoutMode}
+              onChange={e => setLayoutMode(e.target.value as LayoutMode)}
+              className="h-10 border rounded px-2 text-sm"
+              title="Automatic layout re-arranges the tree after every structural change; manual keeps positions fixed"
+            >
+              <option value="auto">Auto layout</option>
+              <option value="manual">Manual positions</option>
+            </select>
+            <select
+              value={state.direction ?? 'auto'}
+              onChange={e => changeDirection(e.target.value === 'auto' ? undefined : e.target.value as TextDirection)}
+              className="h-10 border rounded px-2 text-sm"
+              title="Right to left draws the first word on the right, for Hebrew and Arabic"
+              aria-label="Text direction"
+            >
+              <option value="auto">Auto ({TEXT_DIRECTIONS.find(d => d.value === detectedDirection)!.label.toLowerCase()})</option>
+              {TEXT_DIRECTIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            <span className="font-semibold">Tokens</span>
+            <select
+              value={tokenOptions.punctuation}
+              onChange={e => setTokenOptions(prev => ({ ...prev, punctuation: e.target.value as PunctuationMode }))}
+              className="h-9 border rounded px-2"
+            >
+              {PUNCTUATION_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={tokenOptions.clitics}
+                onChange={e => setTokenOptions(prev => ({ ...prev, clitics: e.target.checked }))}
+              />
+              Split clitics (don&apos;t → do n&apos;t)
+            </label>
+            <span className="ml-2 font-semibold">Words</span>
+            <Button variant="outline" size="sm" onClick={() => targetWord && applyOperation(prev => splitLeaf(prev, targetWord.id))}
+              disabled={!targetWord} title="Split the selected word at the spaces typed into it">
+              Split
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => applyOperation(prev => mergeLeaves(prev, selectedWords.map(n => n.id)))}
+              disabled={selectedWords.length < 2} title="Merge the selected neighbouring words into one leaf">
+              Merge
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => applyOperation(prev => insertWord(prev, targetWord?.id ?? null))}
+              title="Insert a word after the selected word, or at the start of the sentence">
+              Insert Word
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => targetWord && applyOperation(prev => deleteWord(prev, targetWord.id))}
+              disabled={!targetWord} title="Remove the selected word">
+              Delete Word
+            </Button>
+            <select
+              value={emptyCategory}
+              onChange={e => setEmptyCategory(e.target.value)}
+              className="h-9 border rounded px-2"
+              aria-label="Empty category"
+            >
+              {EMPTY_CATEGORIES.map(label => <option key={label} value={label}>{label}</option>)}
+            </select>
+            <Button variant="outline" size="sm" onClick={() => applyOperation(prev => insertEmptyCategory(prev, targetWord?.id ?? null, emptyCategory))}
+              title="Insert an unpronounced element after the selected word">
+              Insert Empty
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => targetWord && applyOperation(prev => toggleEmpty(prev, targetWord.id))}
+              disabled={!targetWord} title="Mark the selected word as unpronounced, or as an overt word again">
+              {targetWord?.empty ? 'Mark Overt' : 'Mark Empty'}
+            </Button>
+          </div>
+          <div className="flex gap-4 mb-4">
+            <Input
+              value={bracketText}
+              onChange={e => setBracketText(e.target.value)}
+              placeholder="[S [NP [Det the] [N dog]] [VP [V barked]]]"
+              dir={bracketText ? direction : 'ltr'}
+              className="flex-grow font-mono"
+            />
+            <Button variant="outline" onClick={importBrackets}>Import Brackets</Button>
+            <Button variant="outline" onClick={exportBrackets} disabled={!state.nodes.length}>
+              Export Brackets
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm font-semibold">Movement</span>
+            <Button variant="outline" size="sm" onClick={addMovementArrow} disabled={state.selected.length !== 2}
+              title="Select the trace position, then the landing site">
+              Add Arrow
+            </Button>
+            <select
+              value={traceKind}
+              onChange={e => setTraceKind(e.target.value as TraceKind)}
+              className="h-9 border rounded px-2 text-sm"
+            >
+              {TRACE_KINDS.map(kind => (
+                <option key={kind.value} value={kind.value}>{kind.label}</option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={addTrace} disabled={state.selected.length !== 2}
+              title="Select the phrase that holds the trace, then the constituent that moved">
+              Insert Trace
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm font-semibold">Structure</span>
+            <Button variant="outline" size="sm" onClick={() => target && removeNode(target.id, false)} disabled={!target}
+              title="Remove the selected node and attach its children to its parent">
+              Delete Node
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => target && removeNode(target.id, true)} disabled={!target}
+              title="Remove the selected node and everything below it">
+              Delete Subtree
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => target && insertAbove(target.id)} disabled={!target}
+              title="Insert a node between the selected node and its parent">
+              Insert Above
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => target && applyOperation(prev => swapSibling(prev, target.id, 'left'))}
+              disabled={!target} title="Swap the selected node with its left sibling">
+              <ArrowLeftRight /> Swap Left
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => target && applyOperation(prev => swapSibling(prev, target.id, 'right'))}
+              disabled={!target} title="Swap the selected node with its right sibling">
+              <ArrowLeftRight /> Swap Right
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => target && applyOperation(prev => toggleCollapsed(prev, target.id))}
+              disabled={!target || target.isLeaf} title="Draw the selected phrase as a triangle over its words, or expand it again">
+              <Triangle /> {target?.collapsed ? 'Expand' : 'Collapse'}
+            </Button>
+            <span className="text-xs text-muted-foreground">Drop a node onto another to move it there with its subtree</span>
+          </div>
+          <div className="mb-4">
+            <TagSetEditor
+              tagSet={state.tagSet}
+              onChange={tagSet => recordState(prev => ({ ...prev, tagSet }))}
+              onError={message => setState(prev => ({ ...prev, error: message }))}
+            />
+          </div>
+          <div className="mb-4">
+            <ParserPanel
+              sentence={state.sentence}
+              tagSet={state.tagSet}
+              onLoad={loadBrackets}
+              onError={message => setState(prev => ({ ...prev, error: message }))}
+            />
+          </div>
+          <div className="mb-4">
+            <CorpusPanel
+              tagSet={state.tagSet}
+              dimensions={dimensions}
+              onOpen={openCorpusTree}
+              onError={message => setState(prev => ({ ...prev, error: message }))}
+            />
+          </div>
+          <div className="mb-4">
+            <ExercisePanel
+              tree={toPersistedTree(state)}
+              activeId={exercise?.id ?? null}
+              grade={grade}
+              onStart={startExercise}
+              onCheck={checked => {
+                setExercise(checked);
+                setShowDiff(true);
+              }}
+              onHideDiff={() => setShowDiff(false)}
+              onError={message => setState(prev => ({ ...prev, error: message }))}
+            />
+          </div>
+          </>
+        )}
+        <div className="mb-4">
+          <ExportPanel
+            sentence={state.sentence}
+            nodes={state.nodes}
+            edges={state.edges}
+            movements={state.movements}
+            features={showFeatures}
+            direction={direction}
+            onError={message => setState(prev => ({ ...prev, error: message }))}
           />
-          <Button onClick={initializeNodes}>Create Leaf Nodes</Button>
-          <Button onClick={addParent} disabled={state.selected.length < 2}>
-            Add Parent ({state.selected.length})
-          </Button>
         </div>
+        <div className="mb-4">
+          <SharePanel
+            tree={toPersistedTree(state)}
+            onError={message => setState(prev => ({ ...prev, error: message }))}
+          />
+        </div>
+        {!viewOnly && (
+          <div className="mb-4">
+            <CollabPanel
+              status={collabStatus}
+              peers={peers}
+              onConnect={connect}
+              onDisconnect={disconnect}
+            />
+          </div>
+        )}
         {state.error && <div className="text-red-500 mb-4 text-sm">{state.error}</div>}
-        <div className="border rounded-lg p-4" ref={containerRef}>
-          <svg width={dimensions.width} height={dimensions.height} className="bg-white"
+        {!viewOnly && state.nodes.length > 0 && (
+          <div className="mb-4">
+            <ValidationPanel
+              issues={issues}
+              onSelectIssue={issue => setState(prev => ({ ...prev, selected: issue.nodeIds }))}
+            />
+          </div>
+        )}
+        {!viewOnly && syntaxMode === 'constituency' && state.nodes.length > 0 && (
+          <div className="mb-4">
+            <RelationPanel
+              tree={state}
+              relation={relation}
+              onRelationChange={setRelation}
+              highlight={showRelations}
+              onHighlightChange={setShowRelations}
+              bindingIssues={bindingIssues}
+              onSelectIssue={issue => setState(prev => ({ ...prev, selected: issue.nodeIds }))}
+              onCoindex={() => applyOperation(prev => coindexNodes(prev, prev.selected))}
+            />
+          </div>
+        )}
+        <div className="flex gap-4">
+        {!viewOnly && (
+          <TreeLibrary
+            tree={toPersistedTree(state)}
+            activeId={activeId}
+            onOpen={openSavedTree}
+            onActiveChange={setActiveId}
+            onError={message => setState(prev => ({ ...prev, error: message }))}
+          />
+        )}
+        <div className="flex-grow min-w-0 border rounded-lg p-4" ref={containerRef}>
+          <div className="flex gap-1 mb-2" role="group" aria-label="Grammar">
+            <Button variant={syntaxMode === 'constituency' ? 'secondary' : 'ghost'} size="sm"
+              onClick={() => setSyntaxMode('constituency')}>
+              Constituency
+            </Button>
+            <Button variant={syntaxMode === 'dependency' ? 'secondary' : 'ghost'} size="sm"
+              onClick={() => setSyntaxMode('dependency')}>
+              Dependency
+            </Button>
+            {syntaxMode === 'constituency' && (
+              <label className="flex items-center gap-1 text-sm ml-auto">
+                <input type="checkbox" checked={showFeatures} onChange={e => setShowFeatures(e.target.checked)} />
+                Show features
+              </label>
+            )}
+          </div>
+          {syntaxMode === 'dependency' ? (
+            <DependencyView
+              nodes={state.nodes}
+              dependencies={state.dependencies}
+              direction={direction}
+              readOnly={viewOnly}
+              onSetDependency={(dependent, head, relation, historyKey) =>
+                recordState(prev => setDependency(prev, dependent, head, relation), historyKey)}
+              onRemoveDependency={dependent => recordState(prev => removeDependency(prev, dependent))}
+              onConvert={convertToDependencies}
+              onImport={importConllu}
+              onError={message => setState(prev => ({ ...prev, error: message }))}
+            />
+          ) : (
+          <>
+          <div className="relative" style={{ width: dimensions.width, height: dimensions.height }}>
+          <svg width={dimensions.width} height={dimensions.height}
+              className="bg-white focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
               viewBox={`0 0 ${dimensions.width} ${dimensions.height}`} 
               preserveAspectRatio="xMidYMid meet" 
+              ref={svgRef}
+              tabIndex={0}
+              role="tree"
+              aria-label={viewOnly ? 'Tree diagram (read-only)' : 'Tree diagram'}
+              aria-multiselectable
+              aria-activedescendant={focusedNode ? `tree-node-${focusedNode.id}` : undefined}
+              onKeyDown={handleCanvasKeyDown}
           >
-          {state.edges.map(edge => (
-            <Edge
-              key={edge.id}
-              edge={edge}  // Add this
-              from={state.nodes.find(n => n.id === edge.from)!}
-              to={state.nodes.find(n => n.id === edge.to)!}
-              onDelete={() => setState(prev => ({
-                ...prev,
-                edges: prev.edges.filter(e => e.id !== edge.id)
-              }))}
-              onUpdate={(updatedEdge) => setState(prev => ({
-                ...prev,
-                edges: prev.edges.map(e => e.id === updatedEdge.id ? updatedEdge : e)
-              }))}
-            />
-          ))}
-        {state.nodes.map(node => (
-          <TreeNode
+          <defs>
+            <marker id="movement-arrowhead" viewBox="0 0 10 10" refX="9" refY="5"
+              markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#7c3aed" />
+            </marker>
+          </defs>
+          {/* Dragging the empty background pans the view */}
+          <rect
+            width={dimensions.width} height={dimensions.height} fill="transparent"
+            className={isPanning ? 'cursor-grabbing' : 'cursor-grab'}
+            onMouseDown={startPan}
+          />
+          <g
+            transform={`translate(${view.panX},${view.panY}) scale(${view.scale})${mirrored ? ` translate(${dimensions.width},0) scale(-1,1)` : ''}`}
+            className={viewOnly ? 'pointer-events-none' : undefined}
+          >
+          {Array.from(index.edgeById.values()).map(edge => {
+            const from = index.nodeById.get(edge.from);
+            const to = index.nodeById.get(edge.to);
+            // Dangling edges are reported by the validator; there is nothing to draw
+            if (!from || !to || from.collapsed || hiddenIds.has(from.id) || hiddenIds.has(to.id)) return null;
+            return (
+              <MemoEdge
+                key={edge.id}
+                edge={edge}
+                from={from}
+                to={to}
+                hasIssue={issueEdgeIds.has(edge.id)}
+                highlighted={pathEdgeIds.has(edge.id)}
+                onDelete={removeEdge}
+                onInsert={insertOnEdgeAt}
+                onUpdate={updateEdge}
+                onDragEnd={handleDragEnd}
+              />
+            );
+          })}
+          {Array.from(roofs).map(([id, words]) => {
+            const node = index.nodeById.get(id);
+            if (!node || !words.length) return null;
+            return <path key={`roof-${id}`} d={roofPath(node, words)} stroke="black" strokeWidth="1.5" fill="none" />;
+          })}
+          {state.movements.map(movement => {
+            const from = index.nodeById.get(movement.from);
+            const to = index.nodeById.get(movement.to);
+            if (!from || !to || hiddenIds.has(from.id) || hiddenIds.has(to.id)) return null;
+            return (
+              <MemoMovementArrow
+                key={movement.id}
+                movement={movement}
+                from={from}
+                to={to}
+                onDelete={removeMovement}
+                onUpdate={updateMovement}
+                onDragEnd={handleDragEnd}
+              />
+            );
+          })}
+          {grade && grade.missing.map((bracket, i) => {
+            const words = grade.leafIds.slice(bracket.start, bracket.end)
+              .map(id => index.nodeById.get(id))
+              .filter((n): n is TreeNodeType => n !== undefined);
+            if (!words.length) return null;
+            const left = Math.min(...words.map(n => n.x)) - 30;
+            const right = Math.max(...words.map(n => n.x)) + 30;
+            const y = Math.max(...words.map(n => n.y)) + 48 + missingRows[i] * 18;
+            // Flipped back about the bracket's middle, so its label reads normally in a mirrored tree
+            return (
+              <g key={`missing-${i}`} transform={mirrored ? `translate(${left + right},0) scale(-1,1)` : undefined}>
+                <rect x={left} y={y} width={right - left} height="14" rx="3"
+                  fill="none" stroke="#f97316" strokeWidth="1.5" strokeDasharray="4 2" />
+                <text x={left + 4} y={y + 11} fontSize="10" fill="#c2410c">{bracket.label} missing</text>
+              </g>
+            );
+          })}
+        {state.nodes.filter(node => !hiddenIds.has(node.id)).map(node => (
+          <MemoTreeNode
             key={node.id}
             node={node}
-            dimensions={dimensions}
-            totalLeafNodes={totalLeafNodes}  // Add this
-            selected={state.selected.includes(node.id)}
+            selected={selectedIds.has(node.id)}
             isLinking={state.linking !== null}
-            onSelect={() => setState(prev => ({
-              ...prev,
-              selected: prev.selected.includes(node.id)
-                ? prev.selected.filter(id => id !== node.id)
-                : [...prev.selected, node.id]
-            }))}
+            hasIssue={issueNodeIds.has(node.id)}
+            diff={grade ? (node.isLeaf ? grade.posStatus : grade.nodeStatus).get(node.id) : undefined}
+            tagSet={state.tagSet}
+            mirrored={mirrored}
+            focused={node.id === focusedNode?.id}
+            editing={editing?.id === node.id ? editing.field : null}
+            onSelect={selectNode}
             onUpdate={handleNodeUpdate}
+            onDragEnd={handleDragEnd}
             onLink={handleLink}
+            onDrop={moveUnder}
+            onEditEnd={endEditing}
+            showFeatures={showFeatures}
+            underRoof={roofedIds.has(node.id)}
+            onToggleCollapsed={toggleNodeCollapsed}
+            relation={highlights.get(node.id)}
+            peers={peersByNode.get(node.id) || NO_PEERS}
           />
         ))}
+          </g>
       </svg>
+          <div className="absolute top-2 right-2 flex items-center gap-1 bg-white/90 border rounded p-1 text-xs">
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Zoom out (-)" onClick={() => zoomBy(1 / ZOOM_STEP)}>
+              <ZoomOut />
+            </Button>
+            <button className="w-12 tabular-nums" title="Actual size" onClick={() => setView(prev => zoomAt(prev, 1 / prev.scale, canvasCenter))}>
+              {Math.round(view.scale * 100)}%
+            </button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Zoom in (+)" onClick={() => zoomBy(ZOOM_STEP)}>
+              <ZoomIn />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Fit the tree (0)" onClick={fitToTree}>
+              <Maximize />
+            </Button>
+          </div>
+          {state.nodes.length > 0 && (
+            <Minimap
+              nodes={drawnNodes(state.nodes.filter(node => !hiddenIds.has(node.id)), direction)}
+              edges={state.edges}
+              view={view}
+              size={dimensions}
+              onNavigate={setView}
+            />
+          )}
+          </div>
+          <div aria-live="polite" className="sr-only">{announcement}</div>
+          {!viewOnly && (
+            <details className="mt-2 text-sm">
+              <summary className="cursor-pointer text-muted-foreground">Keyboard shortcuts</summary>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 mt-2">
+                <dt className="font-mono">←↑→↓</dt><dd>Move to sibling, parent or first child</dd>
+                <dt className="font-mono">Shift+arrow</dt><dd>Extend the selection</dd>
+                <dt className="font-mono">Space</dt><dd>Select or deselect the focused node</dd>
+                <dt className="font-mono">Enter / F2</dt><dd>Relabel the focused node</dd>
+                <dt className="font-mono">P</dt><dd>Set the part of speech of a word</dd>
+                <dt className="font-mono">W</dt><dd>Wrap the selection (or the focused node) in a new parent</dd>
+                <dt className="font-mono">L</dt><dd>Start a link from the focused phrase, or finish it on the focused node</dd>
+                <dt className="font-mono">Delete</dt><dd>Delete the focused node, moving its children up to its parent</dd>
+                <dt className="font-mono">Shift+Delete</dt><dd>Delete the focused node and everything below it</dd>
+                <dt className="font-mono">X</dt><dd>Detach the focused node from its parent</dd>
+                <dt className="font-mono">I</dt><dd>Insert a node between the focused node and its parent</dd>
+                <dt className="font-mono">[ / ]</dt><dd>Swap the focused node with its left / right sibling</dd>
+                <dt className="font-mono">T</dt><dd>Collapse the focused phrase into a triangle, or expand it</dd>
+                <dt className="font-mono">+ / − / 0</dt><dd>Zoom in / zoom out / fit the tree; the mouse wheel zooms too, and dragging the background pans</dd>
+                <dt className="font-mono">Home / Esc</dt><dd>Go to the root / clear selection and linking</dd>
+              </dl>
+            </details>
+          )}
+          </>
+          )}
+        </div>
+        {!viewOnly && syntaxMode === 'constituency' && (
+          <NodeInspector
+            node={target || null}
+            onUpdate={handleNodeUpdate}
+            onError={message => setState(prev => ({ ...prev, error: message }))}
+          />
+        )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle2, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Exercise, ExerciseError, ExerciseSet, GradeResult, createExercise, parseExerciseSet, serializeExerciseSet } from '@/lib/exercise';
+import { PersistedTree, StorageError, loadExerciseSet, saveExerciseSet } from '@/lib/storage';
+import { downloadBlob } from '@/lib/svgExport';
+
+interface ExercisePanelProps {
+  tree: PersistedTree;
+  activeId: string | null;
+  grade: GradeResult | null;
+  onStart: (exercise: Exercise) => void;
+  onCheck: (exercise: Exercise) => void;
+  onHideDiff: () => void;
+  onError: (message: string) => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const ExercisePanel: React.FC<ExercisePanelProps> = ({ tree, activeId, grade, onStart, onCheck, onHideDiff, onError }) => {
+  const [set, setSet] = useState<ExerciseSet>({ title: 'Exercises', exercises: [] });
+  const [open, setOpen] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const saved = loadExerciseSet();
+    if (saved) setSet(saved);
+  }, []);
+
+  const update = (next: ExerciseSet) => {
+    setSet(next);
+    try {
+      saveExerciseSet(next);
+    } catch (err) {
+      if (!(err instanceof StorageError)) throw err;
+      onError(err.message);
+    }
+  };
+
+  const importSet = async (file: File) => {
+    try {
+      update(parseExerciseSet(await file.text()));
+    } catch (err) {
+      if (!(err instanceof ExerciseError)) throw err;
+      onError(`Could not import "${file.name}": ${err.message}`);
+    }
+  };
+
+  const exportSet = () => {
+    const name = set.title.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_') || 'exercises';
+    downloadBlob(new Blob([serializeExerciseSet(set)], { type: 'application/json' }), `${name}.exercises.json`);
+  };
+
+  const active = set.exercises.find(e => e.id === activeId);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold">Exercises</span>
+        <Button variant={open ? 'secondary' : 'outline'} size="sm" onClick={() => setOpen(!open)}>
+          {set.title} ({set.exercises.length})
+        </Button>
+        {active && (
+          <>
+            <span className="text-sm text-muted-foreground truncate max-w-xs">Working on: {active.sentence}</span>
+            <Button size="sm" onClick={() => onCheck(active)}>
+              <CheckCircle2 /> Check Answer
+            </Button>
+          </>
+        )}
+      </div>
+      {active && grade && (
+        <div className="flex flex-wrap items-center gap-4 border rounded-lg p-3 text-sm">
+          {!grade.sentenceMatches && (
+            <span className="text-red-600">Your words differ from the exercise sentence, so the scores are unreliable.</span>
+          )}
+          <span>Precision <strong>{percent(grade.precision)}</strong></span>
+          <span>Recall <strong>{percent(grade.recall)}</strong></span>
+          <span>F1 <strong>{percent(grade.f1)}</strong></span>
+          <span>POS accuracy <strong>{percent(grade.posAccuracy)}</strong></span>
+          <span className="flex items-center gap-3 text-xs">
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded bg-green-100 border border-green-600" /> correct</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded bg-red-100 border border-red-600" /> extra or wrong</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded border border-dashed border-orange-500" /> missing</span>
+          </span>
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={onHideDiff}>Hide</Button>
+        </div>
+      )}
+      {open && (
+        <div className="flex flex-col gap-2 border rounded-lg p-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input value={set.title} onChange={e => update({ ...set, title: e.target.value })} className="h-8 max-w-xs" />
+            <Button variant="outline" size="sm" onClick={() => update({ ...set, exercises: [...set.exercises, createExercise(tree)] })}
+              disabled={!tree.nodes.length} title="Use the tree in the editor as the answer key for its sentence">
+              <Plus /> Add Current Tree
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+              <Upload /> Import Set
+            </Button>
+            <Button variant="outline" size="sm" onClick={exportSet} disabled={!set.exercises.length}>
+              <Download /> Export Set
+            </Button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) importSet(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {set.exercises.length === 0 && (
+            <p className="text-muted-foreground">
+              Build the answer key in the editor and add it here, or import an exercise set file.
+            </p>
+          )}
+          <ol className="flex flex-col gap-1 list-decimal list-inside">
+            {set.exercises.map(exercise => (
+              <li key={exercise.id} className={`flex items-center gap-2 ${exercise.id === activeId ? 'font-semibold' : ''}`}>
+                <span className="flex-grow truncate">{exercise.sentence}</span>
+                <Button variant="outline" size="sm" onClick={() => onStart(exercise)}
+                  title="Start this sentence with bare words">
+                  Start
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Remove exercise"
+                  onClick={() => update({ ...set, exercises: set.exercises.filter(e => e.id !== exercise.id) })}
+                >
+                  <Trash2 />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExercisePanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Download, FileCode } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { EdgeType, MovementType, TextDirection, TreeNodeType } from '@/types/tree';
+import LatexPanel from '@/components/LatexPanel';
+import { createCanvasMeasure, downloadBlob, renderTreeSvg, svgToPng } from '@/lib/svgExport';
+
+interface ExportPanelProps {
+  sentence: string;
+  nodes: TreeNodeType[];
+  edges: EdgeType[];
+  movements: MovementType[];
+  features: boolean;
+  direction: TextDirection;
+  onError: (message: string) => void;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+// File name derived from the first few words of the sentence
+const baseFilename = (sentence: string) =>
+  sentence.trim().toLowerCase().split(/\s+/).slice(0, 6).join('_').replace(/[^\p{L}\p{N}_-]/gu, '') || 'tree';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ sentence, nodes, edges, movements, features, direction, onError }) => {
+  const [scale, setScale] = useState(2);
+  const [showLatex, setShowLatex] = useState(false);
+
+  const render = () => renderTreeSvg({ nodes, edges, movements }, { measureText: createCanvasMeasure(), features, direction });
+
+  const exportSvg = () => {
+    const { svg } = render();
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${baseFilename(sentence)}.svg`);
+  };
+
+  const exportPng = async () => {
+    try {
+      const blob = await svgToPng(render(), scale);
+      downloadBlob(blob, `${baseFilename(sentence)}.png`);
+    } catch (err) {
+      onError(`PNG export failed: ${(err as Error).message}`);
+    }
+  };
+
+  const disabled = !nodes.length;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold">Export</span>
+        <Button variant="outline" size="sm" onClick={exportSvg} disabled={disabled}>
+          <Download /> SVG
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportPng} disabled={disabled}>
+          <Download /> PNG
+        </Button>
+        <select
+          value={scale}
+          onChange={e => setScale(Number(e.target.value))}
+          className="h-9 border rounded px-2 text-sm"
+          title="PNG scale"
+        >
+          {PNG_SCALES.map(s => (
+            <option key={s} value={s}>{s}×</option>
+          ))}
+        </select>
+        <Button variant={showLatex ? 'secondary' : 'outline'} size="sm" onClick={() => setShowLatex(!showLatex)}>
+          <FileCode /> LaTeX
+        </Button>
+      </div>
+      {showLatex && <LatexPanel nodes={nodes} edges={edges} features={features} direction={direction} onError={onError} />}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { EdgeType, TextDirection, TreeNodeType } from '@/types/tree';
+import { LATEX_FORMATS, LatexFormat, generateLatex } from '@/lib/latex';
+
+interface LatexPanelProps {
+  nodes: TreeNodeType[];
+  edges: EdgeType[];
+  features: boolean;
+  direction: TextDirection;
+  onError: (message: string) => void;
+}
+
+const LatexPanel: React.FC<LatexPanelProps> = ({ nodes, edges, features, direction, onError }) => {
+  const [format, setFormat] = useState<LatexFormat>('forest');
+  const [copied, setCopied] = useState(false);
+
+  const source = generateLatex(nodes, edges, format, features, direction);
+  const preamble = LATEX_FORMATS.find(f => f.value === format)!.preamble;
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copySource = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setCopied(true);
+    } catch {
+      onError('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-semibold">LaTeX</span>
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as LatexFormat)}
+          className="h-9 border rounded px-2 text-sm"
+        >
+          {LATEX_FORMATS.map(f => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </select>
+        <code className="text-xs text-muted-foreground">{preamble}</code>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={copySource} disabled={!source}>
+          {copied ? <Check /> : <Copy />} {copied ? 'Copied' : 'Copy'}
+        </Button>
+      </div>
+      <textarea
+        readOnly
+        value={source}
+        rows={Math.min(16, Math.max(4, source.split('\n').length))}
+        className="w-full border rounded p-2 font-mono text-xs bg-slate-50"
+      />
+    </div>
+  );
+};
+
+export default LatexPanel;
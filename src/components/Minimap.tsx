@@ -0,0 +1,76 @@
+import React, { useRef, useState } from 'react';
+import { EdgeType, TreeNodeType } from '@/types/tree';
+import { indexEdges } from '@/lib/treeIndex';
+import { Viewport, clientToLocal, treeBounds, visibleBounds } from '@/lib/viewport';
+
+interface MinimapProps {
+  nodes: TreeNodeType[];
+  edges: EdgeType[];
+  view: Viewport;
+  size: { width: number; height: number };
+  onNavigate: (view: Viewport) => void;
+}
+
+const MAP_WIDTH = 180;
+const MAP_HEIGHT = 120;
+
+// An overview of the whole tree with the visible part outlined; click or drag to move there
+const Minimap: React.FC<MinimapProps> = ({ nodes, edges, view, size, onNavigate }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const visible = visibleBounds(view, size);
+  const tree = treeBounds(nodes) || visible;
+  const left = Math.min(tree.left, visible.left);
+  const top = Math.min(tree.top, visible.top);
+  const width = Math.max(tree.right, visible.right) - left;
+  const height = Math.max(tree.bottom, visible.bottom) - top;
+  const scale = Math.min(MAP_WIDTH / width, MAP_HEIGHT / height);
+  const toMap = (x: number, y: number) => ({ x: (x - left) * scale, y: (y - top) * scale });
+
+  // Centers the canvas on the tree point under the pointer
+  const moveTo = (e: React.MouseEvent) => {
+    if (!svgRef.current) return;
+    const point = clientToLocal(svgRef.current, e.clientX, e.clientY);
+    const x = point.x / scale + left;
+    const y = point.y / scale + top;
+    onNavigate({ ...view, panX: size.width / 2 - x * view.scale, panY: size.height / 2 - y * view.scale });
+  };
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const frame = toMap(visible.left, visible.top);
+
+  return (
+    <svg
+      ref={svgRef}
+      width={MAP_WIDTH}
+      height={MAP_HEIGHT}
+      className="absolute bottom-2 right-2 bg-white/90 border rounded shadow-sm cursor-pointer"
+      aria-label="Minimap"
+      onMouseDown={e => { e.stopPropagation(); setDragging(true); moveTo(e); }}
+      onMouseMove={e => dragging && moveTo(e)}
+      onMouseUp={() => setDragging(false)}
+      onMouseLeave={() => setDragging(false)}
+    >
+      {Array.from(indexEdges(edges).edgeById.values()).map(edge => {
+        const from = byId.get(edge.from);
+        const to = byId.get(edge.to);
+        if (!from || !to) return null;
+        const a = toMap(from.x, from.y);
+        const b = toMap(to.x, to.y);
+        return <line key={edge.id} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#94a3b8" strokeWidth="1" />;
+      })}
+      {nodes.map(node => {
+        const point = toMap(node.x, node.y);
+        return <circle key={node.id} cx={point.x} cy={point.y} r="2" fill={node.isLeaf ? '#64748b' : '#0f172a'} />;
+      })}
+      <rect
+        x={frame.x} y={frame.y}
+        width={(visible.right - visible.left) * scale} height={(visible.bottom - visible.top) * scale}
+        fill="#3b82f6" fillOpacity="0.1" stroke="#3b82f6" strokeWidth="1.5"
+      />
+    </svg>
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FeatureValue, TreeNodeType } from '@/types/tree';
+import { FeatureError, THETA_ROLES, parseAnnotation } from '@/lib/features';
+
+interface NodeInspectorProps {
+  node: TreeNodeType | null;
+  onUpdate: (node: TreeNodeType, historyKey?: string) => void;
+  onError: (message: string) => void;
+}
+
+// Drops fields left empty so they are not saved
+const withAnnotation = (node: TreeNodeType, changes: Pick<TreeNodeType, 'features' | 'theta' | 'note' | 'index'>): TreeNodeType => {
+  const next = { ...node, ...changes };
+  if (!next.features || !Object.keys(next.features).length) delete next.features;
+  if (!next.theta) delete next.theta;
+  if (!next.note) delete next.note;
+  if (!next.index) delete next.index;
+  return next;
+};
+
+const NodeInspector: React.FC<NodeInspectorProps> = ({ node, onUpdate, onError }) => {
+  const [draft, setDraft] = useState('');
+
+  if (!node) {
+    return (
+      <div className="w-64 shrink-0 border rounded-lg p-3 text-sm text-muted-foreground">
+        Select a single node to edit its features, theta role, index and notes.
+      </div>
+    );
+  }
+
+  const features = node.features || {};
+
+  const setFeature = (name: string, value: FeatureValue) =>
+    onUpdate(withAnnotation(node, { features: { ...features, [name]: value } }), `feature-${node.id}-${name}`);
+
+  const removeFeature = (name: string) => {
+    const rest = { ...features };
+    delete rest[name];
+    onUpdate(withAnnotation(node, { features: rest }));
+  };
+
+  // The draft uses the bracket annotation syntax: +wh, num=sg, θ=Agent
+  const addDraft = () => {
+    if (!draft.trim()) return;
+    try {
+      const added = parseAnnotation(draft);
+      onUpdate(withAnnotation(node, { ...added, features: { ...features, ...added.features } }));
+      setDraft('');
+    } catch (err) {
+      if (!(err instanceof FeatureError)) throw err;
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="w-64 shrink-0 flex flex-col gap-3 border rounded-lg p-3 text-sm">
+      <div className="font-semibold truncate">
+        {node.isLeaf ? 'Word' : 'Phrase'} {node.label || 'unlabeled'}
+        {node.isLeaf && node.pos && <span className="font-normal text-muted-foreground"> ({node.pos})</span>}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-muted-foreground">Features</span>
+        {Object.entries(features).map(([name, value]) => (
+          <div key={name} className="flex items-center gap-1">
+            {typeof value === 'boolean' ? (
+              <select
+                value={value ? '+' : '-'}
+                onChange={e => setFeature(name, e.target.value === '+')}
+                className="h-8 border rounded px-1"
+                aria-label={`Value of ${name}`}
+              >
+                <option value="+">+</option>
+                <option value="-">−</option>
+              </select>
+            ) : null}
+            <span className="font-mono">{name}</span>
+            {typeof value === 'string' && (
+              <Input
+                value={value}
+                onChange={e => setFeature(name, e.target.value)}
+                className="h-8 flex-grow min-w-0"
+                aria-label={`Value of ${name}`}
+              />
+            )}
+            <Button variant="ghost" size="icon" className="h-8 w-8 ml-auto" title="Remove feature"
+              onClick={() => removeFeature(name)}>
+              <Trash2 />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          <Input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addDraft()}
+            placeholder="+wh or num=sg"
+            className="h-8 font-mono"
+          />
+          <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" title="Add feature" onClick={addDraft}>
+            <Plus />
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">Theta role</span>
+        <Input
+          value={node.theta || ''}
+          onChange={e => onUpdate(withAnnotation(node, { theta: e.target.value }), `theta-${node.id}`)}
+          list="theta-roles"
+          className="h-8"
+        />
+        <datalist id="theta-roles">
+          {THETA_ROLES.map(role => <option key={role} value={role} />)}
+        </datalist>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">Index</span>
+        <Input
+          value={node.index || ''}
+          onChange={e => onUpdate(withAnnotation(node, { index: e.target.value.trim() }), `index-${node.id}`)}
+          placeholder="i"
+          className="h-8"
+          title="Nodes with the same index are coindexed: coreferent noun phrases, or a moved phrase and its trace"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">Note</span>
+        <textarea
+          value={node.note || ''}
+          onChange={e => onUpdate(withAnnotation(node, { note: e.target.value }), `note-${node.id}`)}
+          rows={3}
+          className="w-full border rounded p-2"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default NodeInspector;
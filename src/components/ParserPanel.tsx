@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, RotateCcw, Wand2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { TagSet } from '@/types/tree';
+import { GrammarError, GrammarSource, defaultGrammar, parseGrammar } from '@/lib/grammar';
+import { MAX_PARSES, ParseError, ParseTree, parseSentence, parseTreeToBrackets } from '@/lib/parser';
+import { StorageError, clearGrammar, loadGrammar, saveGrammar } from '@/lib/storage';
+
+interface ParserPanelProps {
+  sentence: string;
+  tagSet: TagSet;
+  onLoad: (brackets: string) => void;
+  onError: (message: string) => void;
+}
+
+const ParserPanel: React.FC<ParserPanelProps> = ({ sentence, tagSet, onLoad, onError }) => {
+  const [source, setSource] = useState<GrammarSource>(() => defaultGrammar(tagSet));
+  // Until the user edits it, the grammar follows the tree's tag set
+  const [customized, setCustomized] = useState(false);
+  const [showGrammar, setShowGrammar] = useState(false);
+  const [parses, setParses] = useState<ParseTree[]>([]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    const saved = loadGrammar();
+    if (!saved) return;
+    setSource(saved);
+    setCustomized(true);
+  }, []);
+
+  useEffect(() => {
+    if (!customized) setSource(defaultGrammar(tagSet));
+  }, [tagSet, customized]);
+
+  const store = (action: () => void) => {
+    try {
+      action();
+    } catch (err) {
+      if (!(err instanceof StorageError)) throw err;
+      onError(err.message);
+    }
+  };
+
+  const updateSource = (changes: Partial<GrammarSource>) => {
+    const next = { ...source, ...changes };
+    setSource(next);
+    setCustomized(true);
+    setParses([]);
+    store(() => saveGrammar(next));
+  };
+
+  const resetSource = () => {
+    setSource(defaultGrammar(tagSet));
+    setCustomized(false);
+    setParses([]);
+    store(clearGrammar);
+  };
+
+  const parse = () => {
+    const words = sentence.trim().split(/\s+/).filter(Boolean);
+    if (!words.length) {
+      onError('Please enter a sentence first');
+      return;
+    }
+    try {
+      const found = parseSentence(parseGrammar(source, tagSet), words);
+      if (!found.length) onError('The grammar has no parse for this sentence');
+      setParses(found);
+      setIndex(0);
+    } catch (err) {
+      if (!(err instanceof GrammarError) && !(err instanceof ParseError)) throw err;
+      onError(err instanceof GrammarError ? `Grammar error: ${err.message}` : err.message);
+      setParses([]);
+    }
+  };
+
+  const current = parses[index];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold">Parser</span>
+        <Button variant="outline" size="sm" onClick={parse} title="Suggest trees for the sentence from the grammar">
+          <Wand2 /> Parse Sentence
+        </Button>
+        <Button variant={showGrammar ? 'secondary' : 'outline'} size="sm" onClick={() => setShowGrammar(!showGrammar)}>
+          Grammar
+        </Button>
+        {parses.length > 0 && (
+          <>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setIndex(index - 1)} disabled={index === 0}
+              title="Previous parse">
+              <ChevronLeft />
+            </Button>
+            <span className="text-sm">
+              Parse {index + 1} of {parses.length}{parses.length >= MAX_PARSES ? '+' : ''}
+            </span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setIndex(index + 1)}
+              disabled={index === parses.length - 1} title="Next parse">
+              <ChevronRight />
+            </Button>
+            <Button size="sm" onClick={() => onLoad(parseTreeToBrackets(current, tagSet))}>Load into Editor</Button>
+          </>
+        )}
+      </div>
+      {current && (
+        <code className="block text-xs bg-slate-50 border rounded p-2 break-all">{parseTreeToBrackets(current, tagSet)}</code>
+      )}
+      {showGrammar && (
+        <div className="grid grid-cols-2 gap-2 border rounded-lg p-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">Rules, one per line: NP -&gt; Det N | Det N PP</span>
+            <textarea
+              value={source.rules}
+              onChange={e => updateSource({ rules: e.target.value })}
+              rows={10}
+              spellCheck={false}
+              className="w-full border rounded p-2 font-mono text-xs"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">Lexicon, one word per line: saw: V N</span>
+            <textarea
+              value={source.lexicon}
+              onChange={e => updateSource({ lexicon: e.target.value })}
+              rows={10}
+              spellCheck={false}
+              className="w-full border rounded p-2 font-mono text-xs"
+            />
+          </label>
+          <div className="col-span-2 flex">
+            <Button variant="outline" size="sm" className="ml-auto" onClick={resetSource}
+              title={`Replace the grammar with the starter grammar for ${tagSet.name}`}>
+              <RotateCcw /> Reset to default
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParserPanel;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Link2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { TreeState } from '@/types/tree';
+import { RELATIONS, RELATION_COLORS, Relation, describeRelations } from '@/lib/relations';
+import { BindingIssue } from '@/lib/binding';
+
+interface RelationPanelProps {
+  tree: Pick<TreeState, 'nodes' | 'edges' | 'tagSet' | 'selected'>;
+  relation: Relation;
+  onRelationChange: (relation: Relation) => void;
+  // Whether the selected node's relations are highlighted on the canvas
+  highlight: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+  bindingIssues: BindingIssue[];
+  onSelectIssue: (issue: BindingIssue) => void;
+  onCoindex: () => void;
+}
+
+const Swatch: React.FC<{ color: string; label: string }> = ({ color, label }) => (
+  <span className="flex items-center gap-1">
+    <span className="inline-block w-3 h-3 rounded-sm border-2" style={{ borderColor: color }} /> {label}
+  </span>
+);
+
+const RelationPanel: React.FC<RelationPanelProps> = ({
+  tree, relation, onRelationChange, highlight, onHighlightChange, bindingIssues, onSelectIssue, onCoindex,
+}) => {
+  const { selected } = tree;
+  const verb = RELATIONS.find(r => r.value === relation)!.verb;
+  const pair = selected.length === 2 ? describeRelations(tree.nodes, tree.edges, tree.tagSet, selected[0], selected[1]) : [];
+  const coindexed = tree.nodes.some(n => n.index && !n.empty);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">Relations</span>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={highlight} onChange={e => onHighlightChange(e.target.checked)} />
+          Highlight for the selected node
+        </label>
+        <select
+          value={relation}
+          onChange={e => onRelationChange(e.target.value as Relation)}
+          className="h-8 border rounded px-2"
+          aria-label="Relation to highlight"
+        >
+          {RELATIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+        </select>
+        <Button variant="outline" size="sm" onClick={onCoindex} disabled={selected.length !== 2}
+          title="Give the two selected noun phrases the same index, marking them as coreferent">
+          <Link2 /> Coindex
+        </Button>
+      </div>
+      {highlight && (
+        <div className="flex flex-wrap items-center gap-3 text-muted-foreground">
+          <Swatch color={RELATION_COLORS.related} label={`Nodes it ${verb}`} />
+          <Swatch color={RELATION_COLORS.sister} label="Sisters" />
+          <Swatch color={RELATION_COLORS.path} label="Dominating path" />
+          {selected.length !== 1 && <span>Select a single node to see its relations.</span>}
+        </div>
+      )}
+      {selected.length === 2 && (
+        <ul className="list-disc pl-5">
+          {pair.length ? pair.map(sentence => <li key={sentence}>{sentence}</li>) : <li>The two nodes are not related structurally</li>}
+        </ul>
+      )}
+      {coindexed && (bindingIssues.length ? (
+        <ul className="flex flex-col gap-1">
+          {bindingIssues.map((issue, i) => (
+            <li key={i}>
+              <button className="flex items-start gap-2 text-left text-amber-700 hover:underline" onClick={() => onSelectIssue(issue)}>
+                <AlertTriangle className="h-4 w-4 shrink-0" /> {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="flex items-center gap-2 text-green-700">
+          <CheckCircle2 className="h-4 w-4" /> The coindexed noun phrases satisfy Principles A, B and C
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RelationPanel;
@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react';
+import { Check, Eye, Link } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { PersistedTree } from '@/lib/storage';
+import { PermalinkMode, encodePermalink, permalinkHash } from '@/lib/permalink';
+
+interface SharePanelProps {
+  tree: PersistedTree;
+  onError: (message: string) => void;
+}
+
+const SharePanel: React.FC<SharePanelProps> = ({ tree, onError }) => {
+  const [copied, setCopied] = useState<PermalinkMode | null>(null);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(null), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copyLink = async (mode: PermalinkMode) => {
+    try {
+      const { origin, pathname, search } = window.location;
+      const url = `${origin}${pathname}${search}${permalinkHash(await encodePermalink(tree), mode)}`;
+      await navigator.clipboard.writeText(url);
+      setCopied(mode);
+    } catch {
+      onError('Could not copy the link to the clipboard');
+    }
+  };
+
+  const disabled = !tree.nodes.length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-semibold">Share</span>
+      <Button variant="outline" size="sm" onClick={() => copyLink('edit')} disabled={disabled}
+        title="Anyone with the link can open and edit a copy of this tree">
+        {copied === 'edit' ? <Check /> : <Link />} {copied === 'edit' ? 'Copied' : 'Copy link'}
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => copyLink('view')} disabled={disabled}
+        title="The link opens the tree read-only">
+        {copied === 'view' ? <Check /> : <Eye />} {copied === 'view' ? 'Copied' : 'Copy view-only link'}
+      </Button>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Settings2, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TagCategory, TagSet } from '@/types/tree';
+import { TAG_SET_PRESETS, isPreset } from '@/lib/tagset';
+import { StorageError, createId, deleteTagSet, loadTagSets, saveTagSet } from '@/lib/storage';
+
+interface TagSetEditorProps {
+  tagSet: TagSet;
+  onChange: (tagSet: TagSet) => void;
+  onError: (message: string) => void;
+}
+
+const TagSetEditor: React.FC<TagSetEditorProps> = ({ tagSet, onChange, onError }) => {
+  const [custom, setCustom] = useState<TagSet[]>([]);
+  const [draft, setDraft] = useState<TagSet | null>(null);
+
+  useEffect(() => {
+    setCustom(loadTagSets());
+  }, []);
+
+  // A tree may carry a custom tag set that was never stored in this browser
+  const known = [...TAG_SET_PRESETS, ...custom];
+  const options = known.some(t => t.id === tagSet.id) ? known : [...known, tagSet];
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setCustom(loadTagSets());
+    } catch (err) {
+      if (!(err instanceof StorageError)) throw err;
+      onError(err.message);
+    }
+  };
+
+  // Presets are read-only, so editing one starts a custom copy
+  const startEditing = () => {
+    setDraft(isPreset(tagSet)
+      ? { ...tagSet, id: createId(), name: `${tagSet.name} (custom)`, categories: tagSet.categories.map(c => ({ ...c })) }
+      : { ...tagSet, categories: tagSet.categories.map(c => ({ ...c })) });
+  };
+
+  const updateCategory = (index: number, changes: Partial<TagCategory>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      categories: draft.categories.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const categories = draft.categories
+      .map(c => ({ tag: c.tag.trim(), projects: c.projects?.trim() || undefined, bar: c.bar?.trim() || undefined }))
+      .filter(c => c.tag);
+    const duplicate = categories.find((c, i) => categories.findIndex(other => other.tag === c.tag) !== i);
+    if (duplicate) {
+      onError(`Tag "${duplicate.tag}" appears more than once`);
+      return;
+    }
+    const saved = { ...draft, name: draft.name.trim() || 'Custom tag set', categories };
+    run(() => saveTagSet(saved));
+    onChange(saved);
+    setDraft(null);
+  };
+
+  const removeTagSet = () => {
+    run(() => deleteTagSet(tagSet.id));
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold">Tag set</span>
+        <select
+          value={tagSet.id}
+          onChange={e => onChange(options.find(t => t.id === e.target.value)!)}
+          className="h-9 border rounded px-2 text-sm"
+        >
+          {options.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <Button variant={draft ? 'secondary' : 'outline'} size="sm" onClick={() => (draft ? setDraft(null) : startEditing())}>
+          <Settings2 /> {isPreset(tagSet) ? 'Customize' : 'Edit'}
+        </Button>
+      </div>
+      {draft && (
+        <div className="flex flex-col gap-2 border rounded-lg p-3 text-sm">
+          <div className="flex items-center gap-2">
+            <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="h-8 max-w-xs" />
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={draft.xBarSpine}
+                onChange={e => setDraft({ ...draft, xBarSpine: e.target.checked })}
+              />
+              Build X → X&apos; → XP spine
+            </label>
+          </div>
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1 items-center">
+            <span className="text-muted-foreground">POS</span>
+            <span className="text-muted-foreground">Projects to</span>
+            <span className="text-muted-foreground">Bar level</span>
+            <span />
+            {draft.categories.map((category, i) => (
+              <React.Fragment key={i}>
+                <Input value={category.tag} onChange={e => updateCategory(i, { tag: e.target.value })} className="h-8" />
+                <Input
+                  value={category.projects || ''}
+                  placeholder="none"
+                  onChange={e => updateCategory(i, { projects: e.target.value })}
+                  className="h-8"
+                />
+                <Input
+                  value={category.bar || ''}
+                  placeholder={category.tag ? `${category.tag}'` : ''}
+                  disabled={!draft.xBarSpine}
+                  onChange={e => updateCategory(i, { bar: e.target.value })}
+                  className="h-8"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Remove category"
+                  onClick={() => setDraft({ ...draft, categories: draft.categories.filter((_, j) => j !== i) })}
+                >
+                  <Trash2 />
+                </Button>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft({ ...draft, categories: [...draft.categories, { tag: '' }] })}>
+              <Plus /> Category
+            </Button>
+            <Button size="sm" className="ml-auto" onClick={saveDraft}>Save and use</Button>
+            {!isPreset(tagSet) && tagSet.id === draft.id && (
+              <Button variant="destructive" size="sm" onClick={removeTagSet}>Delete tag set</Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagSetEditor;
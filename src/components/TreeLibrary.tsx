@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Check, Copy, Pencil, Trash2, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  PersistedTree,
+  SavedTree,
+  StorageError,
+  deleteTree,
+  duplicateTree,
+  loadLibrary,
+  renameTree,
+  saveTree,
+} from '@/lib/storage';
+
+interface TreeLibraryProps {
+  tree: PersistedTree;
+  activeId: string | null;
+  onOpen: (entry: SavedTree) => void;
+  onActiveChange: (id: string | null) => void;
+  onError: (message: string) => void;
+}
+
+const TreeLibrary: React.FC<TreeLibraryProps> = ({ tree, activeId, onOpen, onActiveChange, onError }) => {
+  const [entries, setEntries] = useState<SavedTree[]>([]);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    setEntries(loadLibrary());
+  }, []);
+
+  // Show the name of whichever saved tree is open
+  useEffect(() => {
+    const active = loadLibrary().find(t => t.id === activeId);
+    setName(active ? active.name : '');
+  }, [activeId]);
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setEntries(loadLibrary());
+    } catch (err) {
+      if (!(err instanceof StorageError)) throw err;
+      onError(err.message);
+    }
+  };
+
+  const handleSave = (asNew: boolean) => run(() => {
+    const entryName = name.trim() || tree.sentence.trim() || 'Untitled tree';
+    const entry = saveTree(entryName, tree, asNew ? null : activeId);
+    setName(entry.name);
+    onActiveChange(entry.id);
+  });
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const { id, name: newName } = renaming;
+    setRenaming(null);
+    if (!newName.trim()) return;
+    run(() => renameTree(id, newName.trim()));
+    if (id === activeId) setName(newName.trim());
+  };
+
+  const handleDelete = (id: string) => run(() => {
+    deleteTree(id);
+    if (id === activeId) onActiveChange(null);
+  });
+
+  return (
+    <div className="w-64 shrink-0 flex flex-col gap-2">
+      <div className="text-sm font-semibold">Saved Trees</div>
+      <Input
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Tree name"
+      />
+      <div className="flex gap-2">
+        <Button size="sm" className="flex-grow" onClick={() => handleSave(false)} disabled={!tree.nodes.length}>
+          Save
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => handleSave(true)} disabled={!tree.nodes.length || !activeId}>
+          Save as New
+        </Button>
+      </div>
+      {!entries.length && <div className="text-sm text-muted-foreground">No saved trees yet</div>}
+      <ul className="flex flex-col gap-1">
+        {entries.map(entry => (
+          <li
+            key={entry.id}
+            className={`flex items-center gap-1 rounded-md border px-2 py-1 text-sm ${entry.id === activeId ? 'border-blue-500 bg-slate-100' : ''}`}
+          >
+            {renaming?.id === entry.id ? (
+              <>
+                <Input
+                  autoFocus
+                  value={renaming.name}
+                  onChange={e => setRenaming({ id: entry.id, name: e.target.value })}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  className="h-7 px-1"
+                />
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={commitRename} title="Confirm">
+                  <Check />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setRenaming(null)} title="Cancel">
+                  <X />
+                </Button>
+              </>
+            ) : (
+              <>
+                <button
+                  className="flex-grow truncate text-left"
+                  onClick={() => onOpen(entry)}
+                  title={`Open (saved ${new Date(entry.savedAt).toLocaleString()})`}
+                >
+                  {entry.name}
+                </button>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setRenaming({ id: entry.id, name: entry.name })} title="Rename">
+                  <Pencil />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => run(() => duplicateTree(entry.id))} title="Duplicate">
+                  <Copy />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(entry.id)} title="Delete">
+                  <Trash2 />
+                </Button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TreeLibrary;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { TreeIssue } from '@/lib/validate';
+
+interface ValidationPanelProps {
+  issues: TreeIssue[];
+  onSelectIssue: (issue: TreeIssue) => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, onSelectIssue }) => {
+  if (!issues.length) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700">
+        <CheckCircle2 className="h-4 w-4" /> Well-formed tree
+      </div>
+    );
+  }
+
+  return (
+    <details className="text-sm">
+      <summary className="flex items-center gap-2 cursor-pointer text-amber-700">
+        <AlertTriangle className="h-4 w-4" />
+        {issues.length === 1 ? '1 problem keeps' : `${issues.length} problems keep`} this from being a well-formed tree
+      </summary>
+      <ul className="mt-2 flex flex-col gap-1">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            <button
+              className="text-left hover:underline disabled:no-underline"
+              onClick={() => onSelectIssue(issue)}
+              disabled={!issue.nodeIds.length}
+            >
+              {issue.message}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,187 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TreeState } from '@/types/tree';
+import {
+  ClientMessage, Presence, ServerMessage, SyncDoc, SyncOp, SyncedTree, applyOps, diffTrees, materialize, mergeOps,
+  repairTree, siteNextId,
+} from '@/lib/collab';
+
+export type CollabStatus = 'offline' | 'connecting' | 'online';
+
+// Local edits are gathered for this long before they are sent
+const FLUSH_DELAY = 50;
+
+interface Session {
+  socket: WebSocket;
+  name: string;
+  site: number | null;
+  doc: SyncDoc;
+  clock: number;
+  // The tree as the document last described it; local edits are diffed against it
+  synced: SyncedTree | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const sharedPart = (state: TreeState): SyncedTree => ({
+  sentence: state.sentence,
+  tagSet: state.tagSet,
+  nodes: state.nodes,
+  edges: state.edges,
+  movements: state.movements,
+  dependencies: state.dependencies,
+  direction: state.direction,
+});
+
+/**
+ * Shares the tree with everyone in a room of a sync relay (see src/cli/relay.ts).
+ * Local edits are sent as field operations; remote ones are merged and applied
+ * with `setState`, so they are not undoable themselves. They are also carried
+ * into every undo entry through `rebaseHistory`, so undoing a local edit
+ * never reverts a collaborator's. Joining a room that already has a tree opens
+ * it and clears the history (`rebaseHistory(null)`) of the tree it replaces;
+ * joining an empty room publishes this one.
+ */
+export const useCollaboration = (
+  state: TreeState,
+  setState: (update: (prev: TreeState) => TreeState) => void,
+  rebaseHistory: (update: ((entry: TreeState) => TreeState) | null) => void
+) => {
+  const [status, setStatus] = useState<CollabStatus>('offline');
+  const [peers, setPeers] = useState<Presence[]>([]);
+  const session = useRef<Session | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = session.current?.socket;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }, []);
+
+  // Sends whatever changed locally since the document was last in step
+  const flush = useCallback(() => {
+    const current = session.current;
+    if (!current || current.site === null) return;
+    if (current.timer) clearTimeout(current.timer);
+    current.timer = null;
+    const tree = sharedPart(stateRef.current);
+    // One stamp for the whole batch, so an edit's fields (a POS and the projection it built) win or lose together
+    const stamp = { clock: ++current.clock, site: current.site };
+    const ops: SyncOp[] = diffTrees(current.synced, tree).map(op => ({ ...op, stamp }));
+    current.synced = tree;
+    if (!ops.length) return;
+    current.doc = mergeOps(current.doc, ops);
+    send({ type: 'ops', ops });
+  }, [send]);
+
+  // Replaces the local tree with the document's, after repairing what concurrent edits left behind
+  const applyDoc = useCallback(() => {
+    const current = session.current!;
+    const merged = materialize(current.doc, sharedPart(stateRef.current));
+    const tree = repairTree(merged);
+    // What the document changed, as seen from this client; undo entries get the same change
+    const remote = current.synced ? diffTrees(current.synced, merged) : null;
+    if (!remote) rebaseHistory(null);
+    else if (remote.length) rebaseHistory(entry => ({ ...entry, ...repairTree(applyOps(sharedPart(entry), remote)) }));
+    // Diffing against the unrepaired tree sends the repairs to everyone on the next flush
+    current.synced = merged;
+    const ids = new Set(tree.nodes.map(n => n.id));
+    const next: TreeState = {
+      ...stateRef.current,
+      ...tree,
+      nextId: Math.max(stateRef.current.nextId, siteNextId(current.site!, tree.nodes)),
+      selected: stateRef.current.selected.filter(id => ids.has(id)),
+      linking: stateRef.current.linking !== null && ids.has(stateRef.current.linking) ? stateRef.current.linking : null,
+    };
+    stateRef.current = next;
+    setState(prev => ({ ...prev, ...tree, nextId: next.nextId, selected: next.selected, linking: next.linking }));
+  }, [setState, rebaseHistory]);
+
+  const receive = useCallback((message: ServerMessage) => {
+    const current = session.current!;
+    const advanceClock = (ops: SyncOp[]) => {
+      current.clock = Math.max(current.clock, ...ops.map(op => op.stamp.clock));
+    };
+    switch (message.type) {
+      case 'welcome': {
+        current.site = message.site;
+        current.doc = mergeOps({}, message.ops);
+        advanceClock(message.ops);
+        setPeers(message.peers);
+        setStatus('online');
+        if (materialize(current.doc, sharedPart(stateRef.current)).nodes.length) {
+          applyDoc();
+        } else {
+          // An empty room takes this tree; its new nodes get ids from this client's block
+          setState(prev => ({ ...prev, nextId: Math.max(prev.nextId, siteNextId(message.site, prev.nodes)) }));
+        }
+        flush();
+        break;
+      }
+      case 'ops':
+        flush();
+        advanceClock(message.ops);
+        current.doc = mergeOps(current.doc, message.ops);
+        applyDoc();
+        break;
+      case 'presence':
+        setPeers(prev => [...prev.filter(p => p.site !== message.presence.site), message.presence]);
+        break;
+      case 'leave':
+        setPeers(prev => prev.filter(p => p.site !== message.site));
+        break;
+    }
+  }, [applyDoc, flush, setState]);
+
+  const disconnect = useCallback(() => {
+    const current = session.current;
+    session.current = null;
+    if (current?.timer) clearTimeout(current.timer);
+    current?.socket.close();
+    setStatus('offline');
+    setPeers([]);
+  }, []);
+
+  const connect = useCallback((url: string, room: string, name: string) => {
+    disconnect();
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      setState(prev => ({ ...prev, error: `"${url}" is not a WebSocket address` }));
+      return;
+    }
+    const current: Session = { socket, name, site: null, doc: {}, clock: 0, synced: null, timer: null };
+    session.current = current;
+    setStatus('connecting');
+    socket.onopen = () => send({ type: 'join', room, name });
+    socket.onmessage = event => {
+      if (session.current === current) receive(JSON.parse(event.data) as ServerMessage);
+    };
+    socket.onclose = () => {
+      if (session.current !== current) return;
+      session.current = null;
+      setStatus('offline');
+      setPeers([]);
+      setState(prev => ({
+        ...prev,
+        error: current.site === null ? `Could not reach the sync server at ${url}` : 'Lost the connection to the sync server',
+      }));
+    };
+  }, [disconnect, receive, send, setState]);
+
+  // Tree changes are batched briefly, so typing a label sends a few operations rather than one per keystroke
+  useEffect(() => {
+    const current = session.current;
+    if (!current || current.site === null || current.timer) return;
+    current.timer = setTimeout(flush, FLUSH_DELAY);
+  }, [state.sentence, state.tagSet, state.nodes, state.edges, state.movements, state.dependencies, state.direction, flush]);
+
+  useEffect(() => {
+    const current = session.current;
+    if (status !== 'online' || !current) return;
+    send({ type: 'presence', presence: { site: current.site!, name: current.name, selected: state.selected, linking: state.linking } });
+  }, [status, state.selected, state.linking, send]);
+
+  useEffect(() => disconnect, [disconnect]);
+
+  return { status, peers, connect, disconnect };
+};
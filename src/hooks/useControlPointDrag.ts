@@ -0,0 +1,49 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EdgeControlPoint } from '@/types/tree';
+import { clientToLocal } from '@/lib/viewport';
+import { useFrameThrottle } from '@/hooks/useFrameThrottle';
+
+/**
+ * Drags a curve's control point. `onMove` receives the pointer position in the
+ * coordinates of `ref`, which are tree coordinates whatever the pan and zoom,
+ * at most once per frame; `onEnd` runs once on release.
+ */
+export const useControlPointDrag = (
+  ref: React.RefObject<SVGGraphicsElement>,
+  onMove: (point: EdgeControlPoint) => void,
+  onEnd: () => void
+) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // Keep the latest callbacks without re-subscribing the window listeners on every render
+  const handlers = useRef({ onMove, onEnd });
+  handlers.current = { onMove, onEnd };
+  const move = useFrameThrottle((point: EdgeControlPoint) => handlers.current.onMove(point));
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMove = (e: MouseEvent) => {
+      if (!ref.current) return;
+      move.schedule(clientToLocal(ref.current, e.clientX, e.clientY));
+    };
+    const handleUp = () => {
+      setIsDragging(false);
+      move.flush();
+      handlers.current.onEnd();
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [isDragging, ref, move]);
+
+  const startDrag = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsDragging(true);
+  };
+
+  return { isDragging, startDrag };
+};
@@ -0,0 +1,35 @@
+import { useEffect, useRef, useCallback } from 'react';
+
+/**
+ * Runs `callback` at most once per animation frame, with the arguments of the
+ * latest call in that frame. Pointer events can arrive several times a frame;
+ * only the last position needs a state update. `flush` runs a pending call
+ * right away, so the final position lands before a gesture is ended.
+ */
+export const useFrameThrottle = <A extends unknown[]>(callback: (...args: A) => void) => {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const pending = useRef<{ frame: number; args: A } | null>(null);
+
+  const flush = useCallback(() => {
+    const call = pending.current;
+    if (!call) return;
+    cancelAnimationFrame(call.frame);
+    pending.current = null;
+    callbackRef.current(...call.args);
+  }, []);
+
+  const schedule = useCallback((...args: A) => {
+    if (pending.current) {
+      pending.current.args = args;
+      return;
+    }
+    pending.current = { args, frame: requestAnimationFrame(flush) };
+  }, [flush]);
+
+  useEffect(() => () => {
+    if (pending.current) cancelAnimationFrame(pending.current.frame);
+  }, []);
+
+  return { schedule, flush };
+};
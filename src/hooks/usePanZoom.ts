@@ -0,0 +1,53 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { IDENTITY_VIEW, Viewport, clientToLocal, zoomAt } from '@/lib/viewport';
+
+// Zoom change per pixel of wheel movement
+const WHEEL_ZOOM_RATE = 0.0015;
+
+/**
+ * Pan and zoom for the canvas in `ref`: the mouse wheel zooms around the
+ * pointer and `startPan` drags the view. `active` re-attaches the wheel
+ * listener when the canvas is rendered again after being hidden.
+ */
+export const usePanZoom = (ref: React.RefObject<SVGSVGElement>, active: boolean) => {
+  const [view, setView] = useState<Viewport>(IDENTITY_VIEW);
+  const [panStart, setPanStart] = useState<{ x: number; y: number; view: Viewport } | null>(null);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  // React registers wheel listeners as passive, so page scrolling could not be prevented
+  useEffect(() => {
+    const svg = ref.current;
+    if (!svg || !active) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const anchor = clientToLocal(svg, e.clientX, e.clientY);
+      setView(prev => zoomAt(prev, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), anchor));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [ref, active]);
+
+  useEffect(() => {
+    if (!panStart) return;
+    const handleMove = (e: MouseEvent) => setView({
+      ...panStart.view,
+      panX: panStart.view.panX + e.clientX - panStart.x,
+      panY: panStart.view.panY + e.clientY - panStart.y,
+    });
+    const handleUp = () => setPanStart(null);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [panStart]);
+
+  const startPan = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    setPanStart({ x: e.clientX, y: e.clientY, view: viewRef.current });
+  };
+
+  return { view, setView, isPanning: panStart !== null, startPan };
+};
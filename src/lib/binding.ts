@@ -0,0 +1,125 @@
+import { EdgeType, MovementType, TagSet, TreeNodeType, TreeState } from '@/types/tree';
+import { OperationError } from '@/lib/operations';
+import { nextCoindex } from '@/lib/movement';
+import { cCommands, dominates, getDominatingPath } from '@/lib/relations';
+import { getYield } from '@/lib/structure';
+
+export type NominalKind = 'anaphor' | 'pronoun' | 'r-expression';
+
+export type BindingPrinciple = 'A' | 'B' | 'C';
+
+export interface BindingIssue {
+  principle: BindingPrinciple;
+  message: string;
+  nodeIds: number[];
+}
+
+const ANAPHORS = [
+  'myself', 'yourself', 'himself', 'herself', 'itself', 'oneself', 'ourselves', 'yourselves', 'themselves',
+  'each other', 'one another',
+];
+
+const PRONOUNS = [
+  'i', 'me', 'you', 'he', 'him', 'she', 'her', 'it', 'we', 'us', 'they', 'them',
+  'my', 'your', 'his', 'its', 'our', 'their',
+];
+
+// Parts of speech and phrase labels of noun phrases, across the tag sets and Penn Treebank
+const NOMINAL_TAGS = ['N', 'D', 'Det', 'PNP', 'Pron', 'NN', 'NNS', 'NNP', 'NNPS', 'PRP', 'NP', 'DP', 'NX', 'WHNP'];
+
+// Labels whose maximal projection is the binding domain
+const CLAUSE_LABELS = ['S', 'IP', 'TP', 'T'];
+
+// What binding theory treats a noun phrase with these words as
+export const classifyNominal = (words: string): NominalKind => {
+  const text = words.trim().toLowerCase();
+  if (ANAPHORS.includes(text)) return 'anaphor';
+  if (PRONOUNS.includes(text)) return 'pronoun';
+  return 'r-expression';
+};
+
+const isNominal = (node: TreeNodeType, tagSet: TagSet) => {
+  const tag = node.isLeaf ? node.pos : node.label;
+  if (!tag) return false;
+  return NOMINAL_TAGS.includes(tag)
+    || tagSet.categories.some(c => ['N', 'D'].includes(c.tag) && c.projects === tag);
+};
+
+/**
+ * Checks every coindexed noun phrase against the binding principles:
+ * A, an anaphor is bound in its clause; B, a pronoun is free in its clause;
+ * C, an R-expression is free everywhere. A binder is a coindexed node that
+ * c-commands the noun phrase; the two ends of a movement arrow do not bind
+ * each other, but traces and PRO can bind others.
+ */
+export const checkBinding = (
+  nodes: TreeNodeType[],
+  edges: EdgeType[],
+  movements: MovementType[],
+  tagSet: TagSet
+): BindingIssue[] => {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const words = (node: TreeNodeType) =>
+    getYield(nodes, edges, node.id).filter(n => !n.empty).map(n => n.label).join(' ');
+  // Noun phrases are named by their words, clauses by their label
+  const label = (node: TreeNodeType) => `"${node.label || node.id}"`;
+  const phrase = (node: TreeNodeType) => `"${words(node) || node.label || node.id}"`;
+  const moved = (a: number, b: number) => movements.some(m => (m.from === a && m.to === b) || (m.from === b && m.to === a));
+
+  const indexed = nodes.filter(n => n.index && !n.empty && isNominal(n, tagSet)
+    // A word coindexed along with its phrase is the same noun phrase
+    && nodeById.get(getDominatingPath(nodes, edges, n.id)[0])?.index !== n.index);
+
+  const issues: BindingIssue[] = [];
+  indexed.forEach(node => {
+    const binders = nodes.filter(other => other.id !== node.id && other.index === node.index && !moved(other.id, node.id)
+      && cCommands(nodes, edges, other.id, node.id));
+    const path = getDominatingPath(nodes, edges, node.id);
+    const domainId = path.find(id => CLAUSE_LABELS.includes(nodeById.get(id)!.label)) ?? path[path.length - 1];
+    const domain = domainId === undefined ? undefined : nodeById.get(domainId);
+    const local = binders.filter(binder => domain && dominates(nodes, edges, domain.id, binder.id));
+    const where = domain ? ` within ${label(domain)}` : '';
+
+    switch (classifyNominal(words(node))) {
+      case 'anaphor':
+        if (!local.length) {
+          issues.push({
+            principle: 'A',
+            message: `Principle A: the anaphor ${phrase(node)} has no c-commanding antecedent${where}`,
+            nodeIds: [node.id, ...(domain ? [domain.id] : [])],
+          });
+        }
+        break;
+      case 'pronoun':
+        if (local.length) {
+          issues.push({
+            principle: 'B',
+            message: `Principle B: the pronoun ${phrase(node)} is bound by ${phrase(local[0])}${where}`,
+            nodeIds: [node.id, local[0].id],
+          });
+        }
+        break;
+      case 'r-expression':
+        if (binders.length) {
+          issues.push({
+            principle: 'C',
+            message: `Principle C: the R-expression ${phrase(node)} is bound by ${phrase(binders[0])}`,
+            nodeIds: [node.id, binders[0].id],
+          });
+        }
+        break;
+    }
+  });
+  return issues;
+};
+
+/**
+ * Gives the nodes in `ids` a shared index, reusing one of theirs if any has
+ * one. Marks noun phrases as coreferent for the binding check.
+ */
+export const coindexNodes = <T extends Pick<TreeState, 'nodes'>>(state: T, ids: number[]): T => {
+  const targets = state.nodes.filter(n => ids.includes(n.id));
+  if (targets.length < 2) throw new OperationError('Select the two nodes to coindex');
+  const index = targets.find(n => n.index)?.index || nextCoindex(state.nodes);
+  return { ...state, nodes: state.nodes.map(n => (ids.includes(n.id) ? { ...n, index } : n)) };
+};
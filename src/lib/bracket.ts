@@ -0,0 +1,320 @@
+import { TreeNodeType, EdgeType, TagSet } from '@/types/tree';
+import { DEFAULT_TAG_SET, findCategory } from '@/lib/tagset';
+import { getOrderedChildren, getRoots, getSubtreeIds, getYield } from '@/lib/structure';
+import { FeatureError, formatAnnotation, parseAnnotation, splitAnnotatedLabel } from '@/lib/features';
+
+export class BracketParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'BracketParseError';
+    this.position = position;
+  }
+}
+
+export interface ParsedTree {
+  sentence: string;
+  nodes: TreeNodeType[];
+  edges: EdgeType[];
+  nextId: number;
+}
+
+interface Token {
+  type: 'open' | 'close' | 'word';
+  // Words keep their escapes, so annotation braces can be told from escaped ones
+  value: string;
+  position: number;
+}
+
+// A parsed constituent before it is flattened into nodes and edges
+export interface BracketItem {
+  label: string;
+  position: number;
+  children: BracketItem[] | null; // null for bare words
+  // Extra node fields such as a coindex; a preterminal's apply to its leaf
+  attributes?: Pick<TreeNodeType, 'index' | 'empty' | 'functionTags' | 'features' | 'theta' | 'note' | 'collapsed'>;
+}
+
+const SPECIAL_CHARS = /[[\]{}\\\s]/;
+// Quoted notes inside an annotation are JSON strings with escapes of their own, so they are left as written
+const QUOTED_OR_ESCAPED = /("(?:[^"\\]|\\.)*")|\\([\s\S])/g;
+const QUOTED_OR_SPECIAL = /("(?:[^"\\]|\\.)*")|[{}\\]/g;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '[') {
+      tokens.push({ type: 'open', value: ch, position: i });
+      i++;
+    } else if (ch === ']') {
+      tokens.push({ type: 'close', value: ch, position: i });
+      i++;
+    } else {
+      const start = i;
+      let value = '';
+      // An annotation runs to its closing brace, spaces, brackets and quoted notes included
+      let annotation: number | null = null;
+      let quoted = false;
+      while (i < text.length && (annotation !== null || !/[[\]\s]/.test(text[i]))) {
+        if (text[i] === '\\') {
+          if (i + 1 >= text.length) {
+            throw new BracketParseError('Dangling escape character', i);
+          }
+          value += text[i];
+          i++;
+        } else if (quoted) {
+          quoted = text[i] !== '"';
+        } else if (annotation !== null) {
+          if (text[i] === '"') quoted = true;
+          else if (text[i] === '}') annotation = null;
+        } else if (text[i] === '{') {
+          annotation = i;
+        }
+        value += text[i];
+        i++;
+      }
+      if (annotation !== null) {
+        throw new BracketParseError(`Unclosed '{' opened at position ${annotation}: expected '}'`, text.length);
+      }
+      tokens.push({ type: 'word', value, position: start });
+    }
+  }
+
+  return tokens;
+};
+
+const parseItems = (text: string): BracketItem[] => {
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const parseBracket = (): BracketItem => {
+    const open = tokens[index++];
+    const labelToken = tokens[index];
+    if (!labelToken || labelToken.type !== 'word') {
+      throw new BracketParseError('Missing label after \'[\'', labelToken ? labelToken.position : text.length);
+    }
+    index++;
+
+    const children: BracketItem[] = [];
+    while (index < tokens.length && tokens[index].type !== 'close') {
+      const token = tokens[index];
+      if (token.type === 'open') {
+        children.push(parseBracket());
+      } else {
+        children.push({ label: token.value, position: token.position, children: null });
+        index++;
+      }
+    }
+
+    if (index >= tokens.length) {
+      throw new BracketParseError(`Unclosed '[' opened at position ${open.position}: expected ']'`, text.length);
+    }
+    index++;
+
+    return { label: labelToken.value, position: open.position, children };
+  };
+
+  const items: BracketItem[] = [];
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (token.type === 'close') {
+      throw new BracketParseError('Unexpected \']\'', token.position);
+    }
+    if (token.type === 'open') {
+      items.push(parseBracket());
+    } else {
+      items.push({ label: token.value, position: token.position, children: null });
+      index++;
+    }
+  }
+
+  if (!items.length) {
+    throw new BracketParseError('Expected a bracketed tree', 0);
+  }
+
+  return items;
+};
+
+// A roof over a single word is still a phrase
+const isPreterminal = (item: BracketItem) =>
+  item.children !== null && item.children.length === 1 && item.children[0].children === null && !item.attributes?.collapsed;
+
+/**
+ * Turns parsed constituents into nodes and edges. Items holding a single word
+ * are read as preterminals and become a leaf with that POS. Leaves are spaced
+ * across `dimensions` the same way `initializeNodes` spaces them. `tagSet`
+ * decides which phrases count as a leaf's projection.
+ */
+export const buildTree = (
+  items: BracketItem[],
+  dimensions: { width: number; height: number },
+  tagSet: TagSet = DEFAULT_TAG_SET
+): ParsedTree => {
+  const nodes: TreeNodeType[] = [];
+  const edges: EdgeType[] = [];
+  const parentOf = new Map<number, number>();
+  let nextId = 1;
+
+  const build = (item: BracketItem): TreeNodeType => {
+    if (item.children === null || isPreterminal(item)) {
+      const leaf: TreeNodeType = {
+        id: nextId++,
+        label: item.children === null ? item.label : item.children[0].label,
+        pos: item.children === null ? '' : item.label,
+        x: 0,
+        y: 0,
+        isLeaf: true,
+        projectedParent: null,
+        ...(item.children === null ? item.attributes : { ...item.attributes, ...item.children[0].attributes }),
+      };
+      nodes.push(leaf);
+      return leaf;
+    }
+
+    const node: TreeNodeType = { id: nextId++, label: item.label, x: 0, y: 0, isLeaf: false, ...item.attributes };
+    nodes.push(node);
+    item.children.forEach(childItem => {
+      const child = build(childItem);
+      edges.push({ id: `${node.id}-${child.id}`, from: node.id, to: child.id });
+      parentOf.set(child.id, node.id);
+    });
+    return node;
+  };
+
+  const roots = items.map(build);
+
+  // A leaf heads the phrase above it (through its X' node, with an X-bar spine) when the labels match its projection
+  const claimed = new Set<number>();
+  const parentNode = (id: number) => nodes.find(n => n.id === parentOf.get(id));
+  nodes.forEach(node => {
+    const category = findCategory(tagSet, node.pos);
+    if (!node.isLeaf || !category?.projects) return;
+    let parent = parentNode(node.id);
+    if (parent && tagSet.xBarSpine && category.bar && parent.label === category.bar) {
+      parent = parentNode(parent.id);
+    }
+    if (parent && parent.label === category.projects && !claimed.has(parent.id)) {
+      node.projectedParent = parent.id;
+      claimed.add(parent.id);
+    }
+  });
+
+  // Lay leaves out left to right and place each phrase above its children
+  const leaves = nodes.filter(n => n.isLeaf);
+  const spacing = dimensions.width / (leaves.length + 1);
+  leaves.forEach((leaf, i) => {
+    leaf.x = spacing * (i + 1);
+    leaf.y = dimensions.height * 0.875;
+  });
+
+  const place = (node: TreeNodeType) => {
+    if (node.isLeaf) return;
+    const children = edges.filter(e => e.from === node.id).map(e => nodes.find(n => n.id === e.to)!);
+    children.forEach(place);
+    if (children.length) {
+      node.x = (Math.min(...children.map(n => n.x)) + Math.max(...children.map(n => n.x))) / 2;
+      node.y = Math.min(...children.map(n => n.y)) - 60;
+    } else {
+      node.x = dimensions.width / 2;
+      node.y = dimensions.height * 0.125;
+    }
+  };
+  roots.forEach(place);
+
+  return {
+    sentence: leaves.filter(n => !n.empty).map(n => n.label).join(' '),
+    nodes,
+    edges,
+    nextId,
+  };
+};
+
+const unescapeToken = (value: string) => value.replace(/\\([\s\S])/g, '$1');
+
+// Inside braces only braces and backslashes need escaping; spaces and brackets are read as written
+const escapeAnnotation = (value: string) =>
+  value.replace(QUOTED_OR_SPECIAL, (match, quoted?: string) => quoted ?? `\\${match}`);
+
+const unescapeAnnotation = (value: string) =>
+  value.replace(QUOTED_OR_ESCAPED, (_, quoted?: string, ch?: string) => quoted ?? ch!);
+
+/**
+ * Moves annotations written after a label, as in `NP{num=sg,+wh}`, and the roof
+ * mark `^NP` onto the item, then drops the escapes. Escaped braces, as in `\{x\}`,
+ * are part of the label.
+ */
+const readAnnotations = (item: BracketItem): BracketItem => {
+  const split = splitAnnotatedLabel(item.label);
+  const children = item.children && item.children.map(readAnnotations);
+  const collapsed = children !== null && split.label.startsWith('^');
+  const written = unescapeToken(collapsed ? split.label.slice(1) : split.label);
+  // `_` stands in for the missing label of a phrase or POS
+  const label = children !== null && written === '_' ? '' : written;
+  const attributes = collapsed ? { ...item.attributes, collapsed } : item.attributes;
+  if (split.annotation === null) return { ...item, label, children, attributes };
+  try {
+    return { ...item, label, children, attributes: { ...attributes, ...parseAnnotation(unescapeAnnotation(split.annotation)) } };
+  } catch (err) {
+    if (!(err instanceof FeatureError)) throw err;
+    throw new BracketParseError(err.message, item.position);
+  }
+};
+
+/**
+ * Parses labeled bracket notation such as `[S [NP [Det the] [N dog]] [VP [V barked]]]`.
+ * Features, theta roles and notes follow a label in braces: `[N{num = sg, θ=Agent, note="a b"} dog]`.
+ * A caret marks a phrase drawn as a triangle: `[^NP the old man]`.
+ */
+export const parseBracketNotation = (
+  text: string,
+  dimensions: { width: number; height: number },
+  tagSet: TagSet = DEFAULT_TAG_SET
+): ParsedTree => buildTree(parseItems(text).map(readAnnotations), dimensions, tagSet);
+
+export const escapeToken = (value: string) =>
+  value.split('').map(ch => (SPECIAL_CHARS.test(ch) ? `\\${ch}` : ch)).join('');
+
+/**
+ * Serializes the tree back into labeled bracket notation. Children and unattached
+ * roots are ordered by their horizontal position, matching what is drawn.
+ * A leaf's annotations are written on its POS, or on the word when it has none.
+ * A phrase's only word without a POS gets the placeholder POS `_`, since
+ * `[NP t]` would read back as the POS NP on `t`. Collapsed phrases are written as a roof over their words, without the structure below.
+ */
+export const serializeBracketNotation = (nodes: TreeNodeType[], edges: EdgeType[]): string => {
+  const serialize = (node: TreeNodeType, visited: Set<number>, onlyChild = false): string => {
+    if (visited.has(node.id)) return '';
+    visited.add(node.id);
+
+    const annotation = formatAnnotation(node);
+    const annotate = (label: string) => (annotation ? `${escapeToken(label)}{${escapeAnnotation(annotation)}}` : escapeToken(label));
+
+    if (node.isLeaf) {
+      const pos = node.pos || (onlyChild ? '_' : '');
+      return pos ? `[${annotate(pos)} ${escapeToken(node.label)}]` : annotate(node.label);
+    }
+
+    // A triangle keeps only the words under its roof
+    if (node.collapsed) {
+      getSubtreeIds(edges, node.id).forEach(id => visited.add(id));
+      const words = getYield(nodes, edges, node.id).filter(n => !n.empty).map(n => escapeToken(n.label));
+      return `[${[annotate(`^${node.label || '_'}`), ...words].join(' ')}]`;
+    }
+
+    const children = getOrderedChildren(nodes, edges, node.id);
+    const inner = children.map(child => serialize(child, visited, children.length === 1)).filter(Boolean);
+    return `[${[annotate(node.label || '_'), ...inner].join(' ')}]`;
+  };
+
+  const visited = new Set<number>();
+  return getRoots(nodes, edges)
+    .map(root => serialize(root, visited))
+    .filter(Boolean)
+    .join(' ');
+};
@@ -0,0 +1,276 @@
+import { TreeModel, TreeNodeType } from '@/types/tree';
+
+/**
+ * Collaborative editing keeps a replicated document of last-writer-wins
+ * registers, one per field of every node, edge, movement arrow and dependency
+ * arc. Local edits are diffed into operations on those registers; operations
+ * from any client can be merged in any order and every replica ends up with the
+ * same document. `repairTree` then resolves what field-level merging cannot,
+ * such as two projections built for the same word at once.
+ */
+
+// Lamport clock and the relay-assigned site number, which breaks ties
+export interface Stamp {
+  clock: number;
+  site: number;
+}
+
+// Sets one field of one entity; an operation without `value` clears the field
+export interface SyncOp {
+  key: string;     // e.g. 'node:12', 'edge:3-12', 'meta:tree'
+  field: string;   // a field name, or ALIVE for whether the entity exists
+  value?: unknown;
+  stamp: Stamp;
+}
+
+export type SyncDoc = Record<string, Record<string, { value?: unknown; stamp: Stamp }>>;
+
+// The parts of the tree that are shared; nextId stays per client
+export type SyncedTree = Pick<TreeModel, 'sentence' | 'tagSet' | 'nodes' | 'edges' | 'movements' | 'dependencies' | 'direction'>;
+
+// What each client shows of its collaborators
+export interface Presence {
+  site: number;
+  name: string;
+  selected: number[];
+  linking: number | null;
+}
+
+export type ClientMessage =
+  | { type: 'join'; room: string; name: string }
+  | { type: 'ops'; ops: SyncOp[] }
+  | { type: 'presence'; presence: Presence };
+
+export type ServerMessage =
+  | { type: 'welcome'; site: number; ops: SyncOp[]; peers: Presence[] }
+  | { type: 'ops'; ops: SyncOp[] }
+  | { type: 'presence'; presence: Presence }
+  | { type: 'leave'; site: number };
+
+const ALIVE = '$alive';
+// Position in the node list, which orders the words of the sentence
+const ORDER = '$order';
+const META_KEY = 'meta:tree';
+
+// Node ids created by site n start at n * ID_BLOCK, so concurrent creations never collide
+export const ID_BLOCK = 1_000_000;
+
+export const PEER_COLORS = ['#e11d48', '#0891b2', '#ca8a04', '#7c3aed', '#16a34a', '#ea580c'];
+
+export const peerColor = (site: number) => PEER_COLORS[site % PEER_COLORS.length];
+
+export const compareStamps = (a: Stamp, b: Stamp) => a.clock - b.clock || a.site - b.site;
+
+/**
+ * Merges operations into the document, keeping the newest write of each field.
+ * Returns the same document when nothing changed.
+ */
+export const mergeOps = (doc: SyncDoc, ops: SyncOp[]): SyncDoc => {
+  let next = doc;
+  ops.forEach(op => {
+    const current = next[op.key]?.[op.field];
+    if (current && compareStamps(current.stamp, op.stamp) >= 0) return;
+    if (next === doc) next = { ...doc };
+    next[op.key] = { ...next[op.key], [op.field]: 'value' in op ? { value: op.value, stamp: op.stamp } : { stamp: op.stamp } };
+  });
+  return next;
+};
+
+type Fields = Record<string, unknown>;
+
+const omitFields = (fields: Fields, omitted: string[]): Fields =>
+  Object.fromEntries(Object.entries(fields).filter(([field]) => !omitted.includes(field)));
+
+// The entities of a tree as field maps, keyed like the document
+const entitiesOf = (tree: SyncedTree): Map<string, Record<string, unknown>> => {
+  const entities = new Map<string, Record<string, unknown>>();
+  entities.set(META_KEY, { sentence: tree.sentence, tagSet: tree.tagSet, direction: tree.direction });
+  tree.nodes.forEach((node, i) => {
+    entities.set(`node:${node.id}`, { ...Object.fromEntries(Object.entries(node).filter(([field]) => field !== 'id')), [ORDER]: i });
+  });
+  tree.edges.forEach(edge => entities.set(`edge:${edge.id}`, { from: edge.from, to: edge.to, controlPoint: edge.controlPoint }));
+  tree.movements.forEach(m => entities.set(`movement:${m.id}`, { from: m.from, to: m.to, controlPoint: m.controlPoint }));
+  tree.dependencies.forEach(d => entities.set(`dependency:${d.id}`, { head: d.head, dependent: d.dependent, relation: d.relation }));
+  return entities;
+};
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The field changes that turn `prev` into `next`, without stamps. With no
+ * `prev`, every field of `next` is written.
+ */
+export const diffTrees = (prev: SyncedTree | null, next: SyncedTree): Omit<SyncOp, 'stamp'>[] => {
+  const before = prev ? entitiesOf(prev) : new Map<string, Record<string, unknown>>();
+  const after = entitiesOf(next);
+  const ops: Omit<SyncOp, 'stamp'>[] = [];
+  const write = (key: string, field: string, value: unknown) =>
+    ops.push(value === undefined ? { key, field } : { key, field, value });
+
+  after.forEach((fields, key) => {
+    const old = before.get(key);
+    if (!old) write(key, ALIVE, true);
+    const names = new Set([...Object.keys(fields), ...Object.keys(old || {})]);
+    names.forEach(field => {
+      if (!old || !sameValue(old[field], fields[field])) write(key, field, fields[field]);
+    });
+  });
+  before.forEach((_, key) => {
+    if (!after.has(key)) write(key, ALIVE, false);
+  });
+  return ops;
+};
+
+// Fields of a live entity, or null for a deleted or never-created one
+const readEntity = (doc: SyncDoc, key: string): Record<string, unknown> | null => {
+  const registers = doc[key];
+  if (!registers || registers[ALIVE]?.value !== true) return null;
+  const fields: Record<string, unknown> = {};
+  Object.entries(registers).forEach(([field, register]) => {
+    if (field !== ALIVE && register.value !== undefined) fields[field] = register.value;
+  });
+  return fields;
+};
+
+const entries = (doc: SyncDoc, kind: string) =>
+  Object.keys(doc)
+    .filter(key => key.startsWith(`${kind}:`))
+    .sort()
+    .map(key => ({ id: key.slice(kind.length + 1), fields: readEntity(doc, key) }))
+    .filter((entry): entry is { id: string; fields: Record<string, unknown> } => entry.fields !== null);
+
+/** The tree the document describes, with nodes in their shared order. */
+export const materialize = (doc: SyncDoc, base: SyncedTree): SyncedTree => {
+  const meta = readEntity(doc, META_KEY);
+  const nodes = entries(doc, 'node')
+    .map(({ id, fields }) => {
+      const { [ORDER]: order, ...rest } = fields;
+      return { node: { ...rest, id: Number(id) } as TreeNodeType, order: Number(order) || 0 };
+    })
+    .sort((a, b) => a.order - b.order || a.node.id - b.node.id)
+    .map(entry => entry.node);
+  return {
+    sentence: typeof meta?.sentence === 'string' ? meta.sentence : base.sentence,
+    tagSet: (meta?.tagSet as SyncedTree['tagSet']) || base.tagSet,
+    // A cleared direction is absent from the document: the room's tree follows its words again
+    direction: (meta ? meta.direction : base.direction) as SyncedTree['direction'],
+    nodes,
+    edges: entries(doc, 'edge').map(({ id, fields }) => ({ ...fields, id } as SyncedTree['edges'][number])),
+    movements: entries(doc, 'movement').map(({ id, fields }) => ({ ...fields, id } as SyncedTree['movements'][number])),
+    dependencies: entries(doc, 'dependency').map(({ id, fields }) => ({ ...fields, id } as SyncedTree['dependencies'][number])),
+  };
+};
+
+// Sets and clears fields of an entity; undefined clears
+const patchFields = (entity: Fields, changes: Fields): Fields => {
+  const next = { ...entity };
+  Object.entries(changes).forEach(([field, value]) => {
+    if (value === undefined) delete next[field];
+    else next[field] = value;
+  });
+  return next;
+};
+
+/**
+ * Applies operations to a tree as they stand, whatever their stamps: this is
+ * how a collaborator's change, as diffed from the document, is carried into
+ * older versions of the local tree such as undo entries. Entities the
+ * operations do not touch keep their identity.
+ */
+export const applyOps = <T extends SyncedTree>(tree: T, ops: Omit<SyncOp, 'stamp'>[]): T => {
+  if (!ops.length) return tree;
+  const changes = new Map<string, Fields>();
+  ops.forEach(op => changes.set(op.key, { ...changes.get(op.key), [op.field]: op.value }));
+
+  const patchList = (kind: string, list: { id: number | string }[], toId: (id: string) => number | string): Fields[] => {
+    const prefix = `${kind}:`;
+    const present = new Set(list.map(item => `${prefix}${item.id}`));
+    const kept = list.flatMap(item => {
+      const change = changes.get(`${prefix}${item.id}`);
+      if (!change) return [item as Fields];
+      return change[ALIVE] === false ? [] : [patchFields(item as Fields, omitFields(change, [ALIVE]))];
+    });
+    const created = Array.from(changes.entries())
+      .filter(([key, change]) => key.startsWith(prefix) && !present.has(key) && change[ALIVE] === true)
+      .map(([key, change]) => patchFields({ id: toId(key.slice(prefix.length)) }, omitFields(change, [ALIVE])));
+    return [...kept, ...created];
+  };
+
+  // Nodes take their shared order where it changed, and keep their current place otherwise
+  const nodes = patchList('node', tree.nodes, Number)
+    .map((node, i) => ({ node, order: ORDER in node ? Number(node[ORDER]) : i }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ node }) => (ORDER in node ? omitFields(node, [ORDER]) : node));
+  return {
+    ...patchFields(tree, omitFields(changes.get(META_KEY) || {}, [ALIVE])),
+    nodes: nodes as unknown as T['nodes'],
+    edges: patchList('edge', tree.edges, String) as unknown as T['edges'],
+    movements: patchList('movement', tree.movements, String) as unknown as T['movements'],
+    dependencies: patchList('dependency', tree.dependencies, String) as unknown as T['dependencies'],
+  } as T;
+};
+
+/**
+ * Resolves what concurrent edits can leave behind. Links to deleted nodes are
+ * dropped. When two clients change a word's part of speech at once, both build
+ * a projection over it; the word keeps the one its merged projectedParent
+ * names, and the other, a chain of single-child phrases above nothing else, is
+ * removed. Every replica makes the same repairs from the same document.
+ */
+export const repairTree = <T extends SyncedTree>(tree: T): T => {
+  const ids = new Set(tree.nodes.map(n => n.id));
+  let edges = tree.edges.filter(e => ids.has(e.from) && ids.has(e.to));
+  let nodes = tree.nodes.map(n =>
+    (n.projectedParent && !ids.has(n.projectedParent) ? { ...n, projectedParent: null } : n));
+
+  const childrenOf = (id: number) => edges.filter(e => e.from === id).map(e => e.to);
+  const parentsOf = (id: number) => edges.filter(e => e.to === id).map(e => e.from);
+  // Follows single-parent links up from `id` while each node has exactly one child
+  const unaryChain = (id: number) => {
+    const chain = [id];
+    for (let current = id; ;) {
+      const parents = parentsOf(current);
+      if (parents.length !== 1 || childrenOf(parents[0]).length !== 1 || chain.includes(parents[0])) return chain;
+      current = parents[0];
+      chain.push(current);
+    }
+  };
+
+  // Counted once up front: most words have a single parent and need no closer look
+  const parentCount = new Map<number, number>();
+  edges.forEach(e => parentCount.set(e.to, (parentCount.get(e.to) || 0) + 1));
+
+  const removed = new Set<number>();
+  nodes.forEach(leaf => {
+    if (!leaf.isLeaf || !leaf.projectedParent || (parentCount.get(leaf.id) || 0) < 2) return;
+    const parents = parentsOf(leaf.id);
+    parents.forEach(parent => {
+      const chain = unaryChain(parent);
+      const top = chain[chain.length - 1];
+      if (chain.includes(leaf.projectedParent!)) return;
+      // Only a stray projection: phrases over this word alone, attached to nothing
+      if (childrenOf(parent).length !== 1 || parentsOf(top).length > 0) return;
+      if (chain.some(id => tree.nodes.find(n => n.id === id)?.isLeaf)) return;
+      chain.forEach(id => removed.add(id));
+    });
+  });
+
+  if (removed.size) {
+    nodes = nodes.filter(n => !removed.has(n.id));
+    edges = edges.filter(e => !removed.has(e.from) && !removed.has(e.to));
+  }
+  const kept = new Set(nodes.map(n => n.id));
+  return {
+    ...tree,
+    nodes,
+    edges,
+    movements: tree.movements.filter(m => kept.has(m.from) && kept.has(m.to)),
+    dependencies: tree.dependencies.filter(d => kept.has(d.dependent) && (d.head === null || kept.has(d.head))),
+  };
+};
+
+// First free id in a site's block, past any ids it already used there
+export const siteNextId = (site: number, nodes: TreeNodeType[]) => {
+  const start = site * ID_BLOCK;
+  return Math.max(start + 1, ...nodes.filter(n => n.id >= start && n.id < start + ID_BLOCK).map(n => n.id + 1));
+};
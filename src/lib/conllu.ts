@@ -0,0 +1,224 @@
+import { DependencyType, FeatureValue, TagSet, TreeNodeType } from '@/types/tree';
+import { findCategory } from '@/lib/tagset';
+import { getWords } from '@/lib/dependency';
+
+export class ConlluParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} on line ${line}`);
+    this.name = 'ConlluParseError';
+    this.line = line;
+  }
+}
+
+// One sentence of a CoNLL-U file: its words in order with heads given as 1-based word numbers
+export interface ConlluSentence {
+  text: string;
+  comments: string[];
+  tokens: {
+    form: string;
+    upos: string;
+    xpos: string;
+    feats: Record<string, string>;
+    head: number | null;
+    relation: string;
+    misc: Record<string, string>;
+  }[];
+}
+
+// Universal POS tags for the tags of the built-in tag sets, used when exporting and importing
+const UPOS: Record<string, string> = {
+  N: 'NOUN',
+  PNP: 'PRON',
+  V: 'VERB',
+  aux: 'AUX',
+  A: 'ADJ',
+  Adv: 'ADV',
+  P: 'ADP',
+  Det: 'DET',
+  D: 'DET',
+  Conj: 'CCONJ',
+  Neg: 'PART',
+  C: 'SCONJ',
+  T: 'AUX',
+};
+
+// Where no category has a universal tag, the one tried instead
+const UPOS_FALLBACK: Record<string, string> = {
+  PROPN: 'NOUN',
+  PRON: 'DET',
+  SCONJ: 'ADP',
+};
+
+// The tag set's tag for a universal POS tag, if any category corresponds to it
+export const tagForUpos = (upos: string, tagSet: TagSet): string | undefined =>
+  [upos, UPOS_FALLBACK[upos]]
+    .map(candidate => tagSet.categories.find(c => UPOS[c.tag] === candidate))
+    .find(category => category !== undefined)?.tag;
+
+const field = (value: string) => (value === '_' ? '' : value);
+
+// FEATS and MISC hold Key=Value pairs separated by bars
+const readPairs = (value: string): Record<string, string> => Object.fromEntries(
+  field(value).split('|').filter(Boolean).map(pair => {
+    const at = pair.indexOf('=');
+    return at < 0 ? [pair, ''] : [pair.slice(0, at), pair.slice(at + 1)];
+  })
+);
+
+const writePairs = (pairs: [string, string][]) =>
+  pairs.length ? pairs.map(([key, value]) => `${key}=${value}`).join('|') : '_';
+
+// MISC values may not contain spaces or bars; UD writes them as \s and \p
+const escapeMisc = (value: string) => value.replace(/\\/g, '\\\\').replace(/ /g, '\\s').replace(/\|/g, '\\p');
+const unescapeMisc = (value: string) => value.replace(/\\([\\sp])/g, (_, ch) => (ch === 's' ? ' ' : ch === 'p' ? '|' : '\\'));
+
+/**
+ * Splits a CoNLL-U file into sentences. Multiword token ranges (3-4) and empty
+ * nodes (5.1) are skipped, as only the syntactic words carry dependencies.
+ */
+export const parseConllu = (text: string): ConlluSentence[] => {
+  const sentences: ConlluSentence[] = [];
+  let current: ConlluSentence = { text: '', comments: [], tokens: [] };
+  let tokenLines: number[] = [];
+
+  const finish = () => {
+    // Heads must point at a word of the same sentence
+    current.tokens.forEach((token, i) => {
+      if (token.head !== null && token.head > current.tokens.length) {
+        throw new ConlluParseError(`Head ${token.head} of "${token.form}" is outside its sentence`, tokenLines[i]);
+      }
+    });
+    if (current.tokens.length) {
+      sentences.push({ ...current, text: current.text || current.tokens.map(t => t.form).join(' ') });
+    }
+    current = { text: '', comments: [], tokens: [] };
+    tokenLines = [];
+  };
+
+  text.split('\n').forEach((raw, i) => {
+    const line = raw.replace(/\r$/, '');
+    if (!line.trim()) {
+      finish();
+      return;
+    }
+    if (line.startsWith('#')) {
+      const match = /^#\s*text\s*=\s*(.*)$/.exec(line);
+      if (match) current.text = match[1];
+      else current.comments.push(line.replace(/^#\s*/, ''));
+      return;
+    }
+    const columns = line.split('\t');
+    if (columns.length !== 10) throw new ConlluParseError(`Expected 10 tab-separated columns but found ${columns.length}`, i + 1);
+    const [id, form, , upos, xpos, feats, head, relation, , misc] = columns;
+    if (/^\d+[-.]\d+$/.test(id)) return;
+    if (!/^\d+$/.test(id) || Number(id) !== current.tokens.length + 1) {
+      throw new ConlluParseError(`Unexpected word id "${id}"`, i + 1);
+    }
+    if (head !== '_' && !/^\d+$/.test(head)) throw new ConlluParseError(`Invalid head "${head}"`, i + 1);
+    tokenLines.push(i + 1);
+    current.tokens.push({
+      form,
+      upos: field(upos),
+      xpos: field(xpos),
+      feats: readPairs(feats),
+      // Head 0 is the root; "_" leaves the word unattached
+      head: head === '_' ? null : Number(head),
+      relation: field(relation),
+      misc: readPairs(misc),
+    });
+  });
+  finish();
+  return sentences;
+};
+
+// The tag set's tag for a word: its XPOS when the tag set has it, else the tag its UPOS maps from
+const tagFor = (token: ConlluSentence['tokens'][number], tagSet: TagSet) => {
+  if (findCategory(tagSet, token.xpos)) return token.xpos;
+  return tagForUpos(token.upos, tagSet) || token.xpos || token.upos;
+};
+
+// Yes and No values read back as binary features
+const readFeatures = (feats: Record<string, string>): Record<string, FeatureValue> => Object.fromEntries(
+  Object.entries(feats).map(([name, value]) => [name, value === 'Yes' ? true : value === 'No' ? false : value])
+);
+
+// Builds the words and arcs of one sentence, laid out along the bottom like new leaf nodes
+export const conlluToTree = (
+  sentence: ConlluSentence,
+  dimensions: { width: number; height: number },
+  tagSet: TagSet,
+  firstId = 1
+) => {
+  const spacing = dimensions.width / (sentence.tokens.length + 1);
+  const nodes: TreeNodeType[] = sentence.tokens.map((token, i) => ({
+    id: firstId + i,
+    label: token.form,
+    pos: tagFor(token, tagSet),
+    x: spacing * (i + 1),
+    y: dimensions.height * 0.875,
+    isLeaf: true,
+    projectedParent: null,
+    ...(Object.keys(token.feats).length ? { features: readFeatures(token.feats) } : {}),
+    ...(token.misc.Theta ? { theta: unescapeMisc(token.misc.Theta) } : {}),
+    ...(token.misc.Note ? { note: unescapeMisc(token.misc.Note) } : {}),
+  }));
+  const dependencies: DependencyType[] = sentence.tokens
+    .map((token, i) => ({ token, id: firstId + i }))
+    .filter(({ token }) => token.head !== null)
+    .map(({ token, id }) => ({
+      id: `dep-${id}`,
+      head: token.head ? firstId + token.head - 1 : null,
+      dependent: id,
+      relation: token.relation || (token.head ? 'dep' : 'root'),
+    }));
+  return {
+    sentence: sentence.text,
+    nodes,
+    dependencies,
+    nextId: firstId + nodes.length,
+  };
+};
+
+// Binary features become Yes/No values, as in UD's Poss=Yes; UD sorts features by name
+const featsOf = (features: Record<string, FeatureValue> = {}) => writePairs(
+  Object.entries(features)
+    .map(([name, value]): [string, string] => [
+      name.replace(/[\s|=]/g, '_'),
+      typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value.replace(/[\s|]/g, '_'),
+    ])
+    .sort(([a], [b]) => a.toLowerCase().localeCompare(b.toLowerCase()))
+);
+
+/**
+ * Writes the overt words and their arcs as one CoNLL-U sentence. Our POS goes
+ * in XPOS, features in FEATS, and theta roles and notes in MISC.
+ */
+export const serializeConllu = (nodes: TreeNodeType[], dependencies: DependencyType[]): string => {
+  const words = getWords(nodes);
+  const position = new Map(words.map((w, i) => [w.id, i + 1]));
+  const arcOf = new Map(dependencies.map(d => [d.dependent, d]));
+  const clean = (value: string) => value.replace(/\s+/g, '_') || '_';
+
+  const lines = words.map((word, i) => {
+    const arc = arcOf.get(word.id);
+    const head = !arc ? '_' : arc.head === null ? '0' : String(position.get(arc.head) ?? '_');
+    return [
+      i + 1,
+      clean(word.label),
+      '_',
+      UPOS[word.pos || ''] || '_',
+      clean(word.pos || ''),
+      featsOf(word.features),
+      head,
+      arc ? clean(arc.relation) : '_',
+      '_',
+      writePairs([
+        ...(word.theta ? [['Theta', escapeMisc(word.theta)] as [string, string]] : []),
+        ...(word.note ? [['Note', escapeMisc(word.note)] as [string, string]] : []),
+      ]),
+    ].join('\t');
+  });
+  return [`# text = ${words.map(w => w.label).join(' ')}`, ...lines, ''].join('\n');
+};
@@ -0,0 +1,49 @@
+/**
+ * The tree model without React or the browser: creating, editing, validating
+ * and converting trees. Everything here is a pure function over plain data, so
+ * the same code runs in the editor, in tests and in the command-line converter.
+ */
+export type {
+  DependencyType, EdgeType, FeatureValue, MovementType, TagCategory, TagSet, TextDirection, TreeModel, TreeNodeType, TreeState,
+} from '@/types/tree';
+
+// Creating
+export { createEmptyTree, createTree } from '@/lib/tree';
+export { DEFAULT_TOKENIZE_OPTIONS, tokenize } from '@/lib/tokens';
+export type { TokenizeOptions } from '@/lib/tokens';
+export { BARE_PHRASE_STRUCTURE_TAG_SET, DEFAULT_TAG_SET, TAG_SET_PRESETS, TRADITIONAL_TAG_SET, X_BAR_TAG_SET } from '@/lib/tagset';
+
+// Editing
+export { applyNodeUpdate } from '@/lib/projection';
+export {
+  OperationError, deleteEdge, deleteNode, deleteSubtree, insertOnEdge, linkNodes, reparent, spliceNode, swapSibling,
+  toggleCollapsed, wrapInParent,
+} from '@/lib/operations';
+export { deleteWord, insertEmptyCategory, insertWord, mergeLeaves, retokenize, splitLeaf, toggleEmpty } from '@/lib/tokens';
+export { addMovement, insertTrace } from '@/lib/movement';
+export { constituencyToDependencies, removeDependency, setDependency } from '@/lib/dependency';
+export { applyLayout, computeLayout } from '@/lib/layout';
+export { detectDirection, mirrorTree, treeDirection } from '@/lib/direction';
+
+// Querying and validating
+export { getOrderedChildren, getParent, getRoots, getSubtreeIds, getYield } from '@/lib/structure';
+export { validateTree } from '@/lib/validate';
+export type { TreeIssue } from '@/lib/validate';
+export { dependencyIssues } from '@/lib/dependency';
+export {
+  RELATIONS, cCommands, describeRelations, dominates, getDominatingPath, getRelated, getSisters, governs, mCommands, precedes,
+} from '@/lib/relations';
+export type { Relation } from '@/lib/relations';
+export { checkBinding, classifyNominal, coindexNodes } from '@/lib/binding';
+export type { BindingIssue } from '@/lib/binding';
+
+// Serializing
+export { DEFAULT_FORMAT_OPTIONS, FormatError, TREE_FORMATS, formatFromFilename, readTrees, writeTrees } from '@/lib/formats';
+export type { FormatOptions, TreeFormat } from '@/lib/formats';
+export { BracketParseError, parseBracketNotation, serializeBracketNotation } from '@/lib/bracket';
+export { generateLatex } from '@/lib/latex';
+export { renderTreeSvg } from '@/lib/svgExport';
+
+// Collaborating
+export { diffTrees, materialize, mergeOps, repairTree } from '@/lib/collab';
+export type { SyncDoc, SyncOp, SyncedTree } from '@/lib/collab';
@@ -0,0 +1,62 @@
+import { TagSet, TreeModel } from '@/types/tree';
+import { BracketItem } from '@/lib/bracket';
+import { ConlluParseError, ConlluSentence, conlluToTree, parseConllu } from '@/lib/conllu';
+import { TreebankOptions, TreebankParseError, parsePennTreebank, treebankToTree, treebankWords } from '@/lib/treebank';
+
+export type CorpusFormat = 'ptb' | 'conllu';
+
+export type CorpusSentence = { text: string } & (
+  | { format: 'ptb'; tree: BracketItem }
+  | { format: 'conllu'; sentence: ConlluSentence }
+);
+
+export interface Corpus {
+  name: string;
+  format: CorpusFormat;
+  sentences: CorpusSentence[];
+}
+
+// What opening a corpus sentence puts in the editor
+export type CorpusTree = Omit<TreeModel, 'tagSet'>;
+
+export class CorpusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorpusError';
+  }
+}
+
+// Decided by the file extension, or else by whether the first line of content is an s-expression
+const detectFormat = (name: string, text: string): CorpusFormat => {
+  if (/\.(conllu?|conll-?u)$/i.test(name)) return 'conllu';
+  if (/\.(mrg|ptb|tree|trees)$/i.test(name)) return 'ptb';
+  const first = text.split('\n').find(line => line.trim() && !line.startsWith('#'));
+  return first?.trim().startsWith('(') ? 'ptb' : 'conllu';
+};
+
+// Reads a Penn Treebank or CoNLL-U file into its sentences
+export const readCorpus = (name: string, text: string): Corpus => {
+  const format = detectFormat(name, text);
+  try {
+    const sentences: CorpusSentence[] = format === 'ptb'
+      ? parsePennTreebank(text).map(tree => ({ format, tree, text: treebankWords(tree).join(' ') }))
+      : parseConllu(text).map(sentence => ({ format, sentence, text: sentence.text }));
+    if (!sentences.length) throw new CorpusError(`"${name}" contains no sentences`);
+    return { name, format, sentences };
+  } catch (err) {
+    if (!(err instanceof TreebankParseError || err instanceof ConlluParseError)) throw err;
+    throw new CorpusError(`Could not read "${name}": ${err.message}`);
+  }
+};
+
+export const corpusTree = (
+  entry: CorpusSentence,
+  dimensions: { width: number; height: number },
+  tagSet: TagSet,
+  options: TreebankOptions
+): CorpusTree => {
+  if (entry.format === 'ptb') {
+    return { ...treebankToTree(entry.tree, dimensions, tagSet, options), dependencies: [] };
+  }
+  return { ...conlluToTree(entry.sentence, dimensions, tagSet), edges: [], movements: [] };
+};
@@ -0,0 +1,174 @@
+import { DependencyType, EdgeType, TagSet, TreeNodeType, TreeState } from '@/types/tree';
+import { getOrderedChildren, getRoots } from '@/lib/structure';
+
+// Universal Dependencies relations offered as suggestions; any label is accepted
+export const UD_RELATIONS = [
+  'root', 'nsubj', 'obj', 'iobj', 'csubj', 'ccomp', 'xcomp', 'obl', 'vocative', 'expl', 'dislocated',
+  'advcl', 'advmod', 'discourse', 'aux', 'cop', 'mark', 'nmod', 'appos', 'nummod', 'acl', 'amod',
+  'det', 'clf', 'case', 'conj', 'cc', 'fixed', 'flat', 'compound', 'list', 'parataxis', 'orphan',
+  'goeswith', 'reparandum', 'punct', 'dep',
+];
+
+type DependencyState = Pick<TreeState, 'dependencies'>;
+
+// Overt words in sentence order; empty categories take no part in dependencies
+export const getWords = (nodes: TreeNodeType[]): TreeNodeType[] =>
+  nodes.filter(n => n.isLeaf && !n.empty).sort((a, b) => a.x - b.x);
+
+// Gives a word its head and relation, replacing any it had; a null head makes it the root
+export const setDependency = <T extends DependencyState>(
+  state: T,
+  dependent: number,
+  head: number | null,
+  relation: string
+): T => ({
+  ...state,
+  dependencies: [
+    ...state.dependencies.filter(d => d.dependent !== dependent),
+    { id: `dep-${dependent}`, head, dependent, relation },
+  ],
+});
+
+export const removeDependency = <T extends DependencyState>(state: T, dependent: number): T => ({
+  ...state,
+  dependencies: state.dependencies.filter(d => d.dependent !== dependent),
+});
+
+// Problems that keep the arcs from forming a dependency tree; an empty list for a well-formed one
+export const dependencyIssues = (words: TreeNodeType[], dependencies: DependencyType[]): string[] => {
+  const issues: string[] = [];
+  const headOf = new Map(dependencies.map(d => [d.dependent, d.head]));
+  const label = (id: number) => `"${words.find(w => w.id === id)?.label ?? id}"`;
+
+  const roots = dependencies.filter(d => d.head === null);
+  if (words.length && !roots.length) issues.push('No word is marked as the root');
+  if (roots.length > 1) issues.push(`${roots.length} words are marked as the root: ${roots.map(d => label(d.dependent)).join(', ')}`);
+
+  const headless = words.filter(w => !headOf.has(w.id));
+  if (headless.length && dependencies.length) {
+    issues.push(`${headless.map(w => label(w.id)).join(', ')} ${headless.length === 1 ? 'has' : 'have'} no head`);
+  }
+
+  const reported = new Set<number>();
+  words.forEach(word => {
+    const path: number[] = [];
+    for (let current: number | null | undefined = word.id; current != null; current = headOf.get(current)) {
+      if (path.includes(current)) {
+        const loop = path.slice(path.indexOf(current));
+        if (!loop.some(id => reported.has(id))) {
+          loop.forEach(id => reported.add(id));
+          issues.push(`Cycle through ${loop.map(label).join(' → ')}`);
+        }
+        break;
+      }
+      path.push(current);
+    }
+  });
+  return issues;
+};
+
+// Nominal heads get head-final search (Det A N), everything else head-initial
+const HEAD_FINAL_TAGS = ['N', 'PNP'];
+
+// Phrases no category projects, and where their head is found
+const CLAUSE_HEAD_RULES: Record<string, string[]> = {
+  S: ['VP', 'TP', "T'", 'T', 'aux', 'V'],
+  CP: ["C'", 'C', 'TP', 'S'],
+  TP: ["T'", 'T', 'VP'],
+};
+
+/**
+ * The word heading a node. A leaf heads itself; a phrase is headed by the leaf
+ * whose projection it is when that bookkeeping exists, and otherwise by head
+ * rules: the phrase's category (the tag that projects or bars to its label) is
+ * looked for among the children, as a word, bar level or same-label phrase,
+ * searching from the right for nominal categories and from the left for the rest.
+ */
+const lexicalHead = (
+  nodes: TreeNodeType[],
+  edges: EdgeType[],
+  tagSet: TagSet,
+  node: TreeNodeType,
+  seen = new Set<number>()
+): TreeNodeType | undefined => {
+  if (node.isLeaf) return node.empty ? undefined : node;
+  if (seen.has(node.id)) return undefined;
+  seen.add(node.id);
+
+  const projected = nodes.find(n => n.isLeaf && !n.empty && n.projectedParent === node.id);
+  if (projected) return projected;
+
+  const children = getOrderedChildren(nodes, edges, node.id);
+  const category = tagSet.categories.find(c => c.projects === node.label || c.bar === node.label || c.tag === node.label);
+  const candidates = category
+    ? [category.tag, category.bar, category.projects].filter((l): l is string => !!l)
+    : CLAUSE_HEAD_RULES[node.label] || [];
+  const ordered = category && HEAD_FINAL_TAGS.includes(category.tag) ? [...children].reverse() : children;
+  const labelOf = (child: TreeNodeType) => (child.isLeaf ? child.pos : child.label);
+
+  const head = candidates
+    .map(label => ordered.find(child => labelOf(child) === label))
+    .find(child => child !== undefined) || ordered[0];
+  return head ? lexicalHead(nodes, edges, tagSet, head, seen) : undefined;
+};
+
+const NOMINAL_TAGS = ['N', 'PNP', 'D', 'Det'];
+const VERBAL_TAGS = ['V', 'aux', 'T'];
+
+// A best guess at the relation from the head word and the phrase types involved
+const guessRelation = (parentHead: TreeNodeType, child: TreeNodeType, dependent: TreeNodeType, beforeHead: boolean) => {
+  const pos = dependent.pos || '';
+  if (child.isLeaf) {
+    if (pos === 'Det' || pos === 'D') return 'det';
+    if (pos === 'aux') return 'aux';
+    if (pos === 'A') return 'amod';
+    if (pos === 'Adv') return 'advmod';
+  }
+  const parentVerbal = VERBAL_TAGS.includes(parentHead.pos || '');
+  if (pos === 'P') return parentVerbal ? 'obl' : 'nmod';
+  if (pos === 'Adv') return 'advmod';
+  if (pos === 'A') return 'amod';
+  if (NOMINAL_TAGS.includes(pos)) {
+    if (parentVerbal) return beforeHead ? 'nsubj' : 'obj';
+    return 'nmod';
+  }
+  if (VERBAL_TAGS.includes(pos) && parentVerbal) return 'ccomp';
+  return 'dep';
+};
+
+/**
+ * Converts the phrase structure into dependencies: within each phrase the
+ * lexical heads of the non-head children depend on the phrase's own lexical
+ * head, and the head of each tree becomes a root. Relations are guessed and
+ * meant to be corrected by hand.
+ */
+export const constituencyToDependencies = (nodes: TreeNodeType[], edges: EdgeType[], tagSet: TagSet): DependencyType[] => {
+  const dependencies: DependencyType[] = [];
+  const attached = new Set<number>();
+  const attach = (dependent: number, head: number | null, relation: string) => {
+    if (attached.has(dependent)) return;
+    attached.add(dependent);
+    dependencies.push({ id: `dep-${dependent}`, head, dependent, relation });
+  };
+
+  const visited = new Set<number>();
+  const visit = (node: TreeNodeType) => {
+    if (node.isLeaf || visited.has(node.id)) return;
+    visited.add(node.id);
+    const head = lexicalHead(nodes, edges, tagSet, node);
+    getOrderedChildren(nodes, edges, node.id).forEach(child => {
+      const dependent = lexicalHead(nodes, edges, tagSet, child);
+      if (head && dependent && dependent.id !== head.id) {
+        attach(dependent.id, head.id, guessRelation(head, child, dependent, dependent.x < head.x));
+      }
+      visit(child);
+    });
+  };
+
+  getRoots(nodes, edges).forEach(root => {
+    const head = lexicalHead(nodes, edges, tagSet, root);
+    if (head) attach(head.id, null, 'root');
+    visit(root);
+  });
+  return dependencies;
+};
@@ -0,0 +1,50 @@
+import { TextDirection, TreeModel, TreeNodeType } from '@/types/tree';
+
+/**
+ * Right-to-left sentences. Node positions are always stored in reading order,
+ * with the first word leftmost, so everything that orders words by position
+ * (bracket notation, CoNLL-U, validation, relations) works the same in either
+ * direction. Only drawing mirrors the tree: the canvas, image and LaTeX
+ * exports show a right-to-left tree with its first word on the right.
+ */
+
+export const TEXT_DIRECTIONS: { value: TextDirection; label: string }[] = [
+  { value: 'ltr', label: 'Left to right' },
+  { value: 'rtl', label: 'Right to left' },
+];
+
+// Letters of the scripts written right to left: Hebrew, Arabic, Syriac, Thaana, N'Ko and their presentation forms
+const RTL_LETTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+/**
+ * The direction of a text from the letters in it: right to left when most of
+ * them are from a right-to-left script, so a Hebrew sentence with an English
+ * name in it stays right to left. Text without letters is left to right.
+ */
+export const detectDirection = (text: string): TextDirection => {
+  const letters = text.match(/\p{L}/gu) || [];
+  const rtl = letters.filter(letter => RTL_LETTER.test(letter)).length;
+  return rtl * 2 > letters.length ? 'rtl' : 'ltr';
+};
+
+/** The direction chosen for the tree, or else the one its words are written in. */
+export const treeDirection = (tree: Pick<TreeModel, 'sentence' | 'nodes' | 'direction'>): TextDirection => {
+  if (tree.direction) return tree.direction;
+  const words = tree.nodes.filter(n => n.isLeaf).map(n => n.label);
+  return detectDirection(words.length ? words.join(' ') : tree.sentence);
+};
+
+// Positions reflected across the vertical line x = axis / 2
+export const mirrorNodes = (nodes: TreeNodeType[], axis: number): TreeNodeType[] =>
+  nodes.map(node => ({ ...node, x: axis - node.x }));
+
+const mirrorLinks = <L extends { controlPoint?: { x: number; y: number } }>(links: L[], axis: number): L[] =>
+  links.map(link => (link.controlPoint ? { ...link, controlPoint: { ...link.controlPoint, x: axis - link.controlPoint.x } } : link));
+
+/** The tree as it is drawn right to left: nodes and curves reflected across x = axis / 2. */
+export const mirrorTree = <T extends Pick<TreeModel, 'nodes' | 'edges' | 'movements'>>(tree: T, axis: number): T => ({
+  ...tree,
+  nodes: mirrorNodes(tree.nodes, axis),
+  edges: mirrorLinks(tree.edges, axis),
+  movements: mirrorLinks(tree.movements, axis),
+});
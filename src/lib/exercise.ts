@@ -0,0 +1,182 @@
+import { EdgeType, TreeNodeType } from '@/types/tree';
+import { getOrderedChildren, getRoots } from '@/lib/structure';
+import { PersistedTree, SCHEMA_VERSION, StorageError, createId, migrateTree } from '@/lib/storage';
+
+export interface Exercise {
+  id: string;
+  sentence: string;
+  // The instructor's answer key
+  reference: PersistedTree;
+}
+
+export interface ExerciseSet {
+  title: string;
+  exercises: Exercise[];
+}
+
+// Marks a JSON file as an exercise set, so other JSON files are rejected with a clear message
+const FILE_FORMAT = 'sentence_trees/exercises';
+
+export class ExerciseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExerciseError';
+  }
+}
+
+// A labeled constituent over words start..end-1, counting only overt words
+export interface Bracket {
+  label: string;
+  start: number;
+  end: number;
+}
+
+interface NodeBracket extends Bracket {
+  nodeId: number;
+}
+
+export type DiffStatus = 'correct' | 'extra';
+
+export interface GradeResult {
+  precision: number;
+  recall: number;
+  f1: number;
+  posAccuracy: number;
+  // False when the student's words differ from the answer key's, which makes the scores meaningless
+  sentenceMatches: boolean;
+  // Status of each of the student's phrases, and of each word's POS
+  nodeStatus: Map<number, DiffStatus>;
+  posStatus: Map<number, DiffStatus>;
+  // Constituents of the answer key the student is missing
+  missing: Bracket[];
+  // The student's overt words in order, for placing missing constituents
+  leafIds: number[];
+}
+
+export const createExercise = (reference: PersistedTree): Exercise => ({
+  id: createId(),
+  sentence: reference.sentence,
+  reference,
+});
+
+/**
+ * Labeled brackets of every phrase, PARSEVAL style: spans count overt words
+ * only, so traces and other empty categories neither add brackets nor shift
+ * positions. Also returns the overt words in sentence order.
+ */
+export const collectBrackets = (nodes: TreeNodeType[], edges: EdgeType[]) => {
+  const words: TreeNodeType[] = [];
+  const brackets: NodeBracket[] = [];
+  const visited = new Set<number>();
+
+  const visit = (node: TreeNodeType) => {
+    if (visited.has(node.id)) return;
+    visited.add(node.id);
+    if (node.isLeaf) {
+      if (!node.empty) words.push(node);
+      return;
+    }
+    const start = words.length;
+    getOrderedChildren(nodes, edges, node.id).forEach(visit);
+    if (words.length > start) brackets.push({ label: node.label, start, end: words.length, nodeId: node.id });
+  };
+  getRoots(nodes, edges).forEach(visit);
+
+  return { words, brackets };
+};
+
+const bracketKey = (b: Bracket) => `${b.label}:${b.start}:${b.end}`;
+
+const ratio = (part: number, whole: number) => (whole ? part / whole : 1);
+
+// Compares a student's tree against the answer key
+export const gradeTree = (
+  student: Pick<PersistedTree, 'nodes' | 'edges'>,
+  reference: Pick<PersistedTree, 'nodes' | 'edges'>
+): GradeResult => {
+  const ours = collectBrackets(student.nodes, student.edges);
+  const key = collectBrackets(reference.nodes, reference.edges);
+
+  // Brackets are a multiset: a unary NP over NP has to be matched twice
+  const unmatched = new Map<string, Bracket[]>();
+  key.brackets.forEach(b => unmatched.set(bracketKey(b), [...(unmatched.get(bracketKey(b)) || []), b]));
+
+  const nodeStatus = new Map<number, DiffStatus>();
+  let matched = 0;
+  ours.brackets.forEach(b => {
+    const candidates = unmatched.get(bracketKey(b));
+    if (candidates?.length) {
+      candidates.pop();
+      matched++;
+      nodeStatus.set(b.nodeId, 'correct');
+    } else {
+      nodeStatus.set(b.nodeId, 'extra');
+    }
+  });
+
+  const posStatus = new Map<number, DiffStatus>();
+  let posCorrect = 0;
+  ours.words.forEach((word, i) => {
+    const correct = !!key.words[i] && (word.pos || '') === (key.words[i].pos || '');
+    if (correct) posCorrect++;
+    posStatus.set(word.id, correct ? 'correct' : 'extra');
+  });
+
+  const precision = ratio(matched, ours.brackets.length);
+  const recall = ratio(matched, key.brackets.length);
+  return {
+    precision,
+    recall,
+    f1: precision + recall ? (2 * precision * recall) / (precision + recall) : 0,
+    posAccuracy: ratio(posCorrect, key.words.length),
+    sentenceMatches: ours.words.length === key.words.length
+      && ours.words.every((word, i) => word.label === key.words[i].label),
+    nodeStatus,
+    posStatus,
+    missing: Array.from(unmatched.values())
+      .flat()
+      .map(({ label, start, end }) => ({ label, start, end }))
+      .sort((a, b) => a.start - b.start || b.end - a.end),
+    leafIds: ours.words.map(word => word.id),
+  };
+};
+
+export const serializeExerciseSet = (set: ExerciseSet): string =>
+  JSON.stringify({ format: FILE_FORMAT, version: SCHEMA_VERSION, ...set }, null, 2);
+
+const isExerciseEntry = (entry: unknown): entry is { id?: unknown; sentence: string; reference: unknown } =>
+  typeof entry === 'object' && entry !== null && typeof (entry as { sentence?: unknown }).sentence === 'string'
+  && 'reference' in entry;
+
+// Reads an exercise set file, bringing every answer key up to the current schema
+export const parseExerciseSet = (text: string): ExerciseSet => {
+  let raw: { format?: unknown; version?: unknown; title?: unknown; exercises?: unknown };
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ExerciseError('The file is not valid JSON');
+  }
+  if (!raw || raw.format !== FILE_FORMAT || !Array.isArray(raw.exercises)) {
+    throw new ExerciseError('The file is not an exercise set');
+  }
+  const version = typeof raw.version === 'number' ? raw.version : 1;
+  try {
+    return {
+      title: typeof raw.title === 'string' ? raw.title : 'Exercises',
+      exercises: raw.exercises.map((entry: unknown, i: number) => {
+        if (!isExerciseEntry(entry)) {
+          throw new ExerciseError(`Exercise ${i + 1} needs a sentence and an answer key`);
+        }
+        const reference = migrateTree(entry.reference, version);
+        return {
+          id: typeof entry.id === 'string' && entry.id ? entry.id : createId(),
+          sentence: entry.sentence || reference.sentence,
+          reference,
+        };
+      }),
+    };
+  } catch (err) {
+    if (!(err instanceof StorageError)) throw err;
+    throw new ExerciseError(`An answer key could not be read: ${err.message}`);
+  }
+};
@@ -0,0 +1,90 @@
+import { FeatureValue, TreeNodeType } from '@/types/tree';
+
+export type Annotation = Pick<TreeNodeType, 'features' | 'theta' | 'note' | 'index' | 'empty' | 'functionTags'>;
+
+export const THETA_ROLES = [
+  'Agent', 'Experiencer', 'Theme', 'Patient', 'Goal', 'Source', 'Recipient', 'Beneficiary', 'Instrument', 'Location',
+];
+
+export class FeatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeatureError';
+  }
+}
+
+// +wh / -wh for binary features, num: sg for valued ones
+export const formatFeature = (name: string, value: FeatureValue) =>
+  typeof value === 'boolean' ? `${value ? '+' : '-'}${name}` : `${name}: ${value}`;
+
+// Rows of the matrix drawn under a node: its features, then its theta role
+export const featureRows = (node: Annotation): string[] => [
+  ...Object.entries(node.features || {}).map(([name, value]) => formatFeature(name, value)),
+  ...(node.theta ? [`θ: ${node.theta}`] : []),
+];
+
+export const hasAnnotation = (node: Annotation) =>
+  !!(node.theta || node.note || Object.keys(node.features || {}).length);
+
+// One item of an annotation: +wh, -wh, num=sg, θ=Agent, note="...", or empty on its own
+const ITEM = /\s*(?:note=("(?:[^"\\]|\\.)*")|(empty)(?=\s*(?:,|$))|([+-])([^\s,=+-][^,=]*)|([^\s,=][^,=]*)=([^,]*))\s*(?:,|$)/y;
+
+/**
+ * Reads an annotation written as a comma-separated list such as
+ * `+wh,num=sg,θ=Agent,note="moved"`. Names and values may not contain commas
+ * or equals signs; the note is a JSON string and may contain anything.
+ * `empty` marks an empty category, `index=i` a coindex and `function=SBJ-TMP`
+ * treebank function tags.
+ */
+export const parseAnnotation = (text: string): Annotation => {
+  const features: Record<string, FeatureValue> = {};
+  const annotation: Annotation = {};
+  ITEM.lastIndex = 0;
+  while (ITEM.lastIndex < text.length) {
+    const start = ITEM.lastIndex;
+    const match = ITEM.exec(text);
+    if (!match || ITEM.lastIndex === start) {
+      throw new FeatureError(`Cannot read the feature "${text.slice(start).split(',')[0].trim()}"`);
+    }
+    const [, note, empty, sign, binary, name, value] = match;
+    if (note) {
+      try {
+        annotation.note = JSON.parse(note);
+      } catch {
+        throw new FeatureError(`Cannot read the note ${note}`);
+      }
+    } else if (empty) {
+      annotation.empty = true;
+    } else if (sign) {
+      features[binary.trim()] = sign === '+';
+    } else if (['θ', 'theta'].includes(name.trim())) {
+      annotation.theta = value.trim();
+    } else if (name.trim() === 'note') {
+      annotation.note = value.trim();
+    } else if (name.trim() === 'index') {
+      annotation.index = value.trim();
+    } else if (name.trim() === 'function') {
+      annotation.functionTags = value.split('-').map(tag => tag.trim()).filter(Boolean);
+    } else {
+      features[name.trim()] = value.trim();
+    }
+  }
+  return Object.keys(features).length ? { ...annotation, features } : annotation;
+};
+
+// The inverse of parseAnnotation; an empty string for a node without annotations
+export const formatAnnotation = (node: Annotation): string => [
+  ...(node.empty ? ['empty'] : []),
+  ...(node.index ? [`index=${node.index}`] : []),
+  ...(node.functionTags?.length ? [`function=${node.functionTags.join('-')}`] : []),
+  ...Object.entries(node.features || {}).map(([name, value]) =>
+    (typeof value === 'boolean' ? `${value ? '+' : '-'}${name}` : `${name}=${value}`)),
+  ...(node.theta ? [`θ=${node.theta}`] : []),
+  ...(node.note ? [`note=${JSON.stringify(node.note)}`] : []),
+].join(',');
+
+// Splits `NP{num=sg}` into its label and annotation; braces escaped with a backslash do not count
+export const splitAnnotatedLabel = (text: string): { label: string; annotation: string | null } => {
+  const match = /^((?:[^\\{]|\\[\s\S])*)\{((?:[^\\]|\\[\s\S])*)\}$/.exec(text);
+  return match ? { label: match[1], annotation: match[2] } : { label: text, annotation: null };
+};
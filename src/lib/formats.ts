@@ -0,0 +1,156 @@
+import { TagSet, TreeModel } from '@/types/tree';
+import { DEFAULT_TAG_SET } from '@/lib/tagset';
+import { BracketParseError, parseBracketNotation, serializeBracketNotation } from '@/lib/bracket';
+import { ConlluParseError, conlluToTree, parseConllu, serializeConllu } from '@/lib/conllu';
+import { DEFAULT_TREEBANK_OPTIONS, TreebankOptions, TreebankParseError, parsePennTreebank, treebankToTree } from '@/lib/treebank';
+import { constituencyToDependencies } from '@/lib/dependency';
+import { traceMovements } from '@/lib/movement';
+import { generateLatex } from '@/lib/latex';
+import { renderTreeSvg } from '@/lib/svgExport';
+import { treeDirection } from '@/lib/direction';
+import { SCHEMA_VERSION, StorageError, migrateTree, toPersistedTree } from '@/lib/storage';
+
+export type TreeFormat = 'bracket' | 'ptb' | 'conllu' | 'json' | 'forest' | 'qtree' | 'tikz-qtree' | 'svg';
+
+export const TREE_FORMATS: {
+  value: TreeFormat;
+  label: string;
+  extensions: string[];
+  readable: boolean;
+  // Whether one file can hold several trees; otherwise each tree gets its own file
+  multiple: boolean;
+}[] = [
+  { value: 'bracket', label: 'Labeled bracket notation', extensions: ['.txt', '.brackets'], readable: true, multiple: true },
+  { value: 'ptb', label: 'Penn Treebank', extensions: ['.mrg', '.ptb', '.tree', '.trees'], readable: true, multiple: true },
+  { value: 'conllu', label: 'CoNLL-U', extensions: ['.conllu', '.conll'], readable: true, multiple: true },
+  { value: 'json', label: 'Editor JSON', extensions: ['.json'], readable: true, multiple: true },
+  { value: 'forest', label: 'LaTeX (forest)', extensions: ['.tex'], readable: false, multiple: true },
+  { value: 'qtree', label: 'LaTeX (qtree)', extensions: ['.tex'], readable: false, multiple: true },
+  { value: 'tikz-qtree', label: 'LaTeX (tikz-qtree)', extensions: ['.tex'], readable: false, multiple: true },
+  { value: 'svg', label: 'SVG image', extensions: ['.svg'], readable: false, multiple: false },
+];
+
+export interface FormatOptions {
+  dimensions: { width: number; height: number };
+  tagSet: TagSet;
+  treebank: TreebankOptions;
+  // Write features and theta roles into LaTeX and SVG output
+  features: boolean;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  dimensions: { width: 800, height: 600 },
+  tagSet: DEFAULT_TAG_SET,
+  treebank: DEFAULT_TREEBANK_OPTIONS,
+  features: false,
+};
+
+export class FormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormatError';
+  }
+}
+
+// The first format whose extension the file name ends with
+export const formatFromFilename = (name: string): TreeFormat | null =>
+  TREE_FORMATS.find(format => format.extensions.some(ext => name.toLowerCase().endsWith(ext)))?.value ?? null;
+
+// Trees in bracket files are separated by blank lines
+const splitParagraphs = (text: string) => text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+const readJson = (text: string): TreeModel[] => {
+  const data = JSON.parse(text) as { version?: number; trees?: unknown[]; tree?: unknown } | null;
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new FormatError('Expected an editor JSON object');
+  }
+  const version = typeof data.version === 'number' ? data.version : SCHEMA_VERSION;
+  const trees = Array.isArray(data.trees) ? data.trees : [data.tree];
+  return trees.map(tree => migrateTree(tree, version));
+};
+
+/**
+ * Reads every tree in a file. Throws a FormatError naming the problem for
+ * input that is not valid in the given format.
+ */
+export const readTrees = (text: string, format: TreeFormat, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): TreeModel[] => {
+  const { dimensions, tagSet } = options;
+  try {
+    switch (format) {
+      case 'bracket':
+        return splitParagraphs(text).map(paragraph => {
+          const parsed = parseBracketNotation(paragraph, dimensions, tagSet);
+          return { ...parsed, tagSet, movements: traceMovements(parsed.nodes), dependencies: [] };
+        });
+      case 'ptb':
+        return parsePennTreebank(text).map(item =>
+          ({ ...treebankToTree(item, dimensions, tagSet, options.treebank), tagSet, dependencies: [] }));
+      case 'conllu':
+        return parseConllu(text).map(sentence =>
+          ({ ...conlluToTree(sentence, dimensions, tagSet), tagSet, edges: [], movements: [] }));
+      case 'json':
+        return readJson(text);
+      default:
+        throw new FormatError(`${format} can be written but not read`);
+    }
+  } catch (err) {
+    if (err instanceof BracketParseError || err instanceof TreebankParseError) {
+      throw new FormatError(`${err.message} (at character ${err.position})`);
+    }
+    if (err instanceof ConlluParseError) throw new FormatError(`${err.message} (line ${err.line})`);
+    if (err instanceof StorageError || err instanceof SyntaxError) throw new FormatError(err.message);
+    throw err;
+  }
+};
+
+// Constituency trees without arcs get the arcs their head projections imply
+const dependenciesOf = (tree: TreeModel) =>
+  tree.dependencies.length ? tree.dependencies : constituencyToDependencies(tree.nodes, tree.edges, tree.tagSet);
+
+// What a tree carries beyond its words and structure, counted to find what a conversion drops
+const CARRIED_FIELDS: { name: string; count: (tree: TreeModel) => number }[] = [
+  { name: 'empty categories', count: tree => tree.nodes.filter(n => n.empty).length },
+  { name: 'coindices', count: tree => tree.nodes.filter(n => n.index).length },
+  { name: 'function tags', count: tree => tree.nodes.filter(n => n.functionTags?.length).length },
+  { name: 'features', count: tree => tree.nodes.filter(n => Object.keys(n.features || {}).length).length },
+  { name: 'theta roles', count: tree => tree.nodes.filter(n => n.theta).length },
+  { name: 'notes', count: tree => tree.nodes.filter(n => n.note).length },
+  { name: 'movement arrows', count: tree => tree.movements.length },
+  { name: 'dependency arcs', count: tree => tree.dependencies.length },
+];
+
+/**
+ * Names what writing `trees` in `format` would drop, by reading the output
+ * back and counting what the trees still carry. Output-only formats cannot
+ * be read back and are not checked.
+ */
+export const droppedFields = (trees: TreeModel[], format: TreeFormat, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string[] => {
+  if (!TREE_FORMATS.find(f => f.value === format)?.readable) return [];
+  const written = readTrees(writeTrees(trees, format, options), format, options);
+  const total = (list: TreeModel[], count: (tree: TreeModel) => number) => list.reduce((sum, tree) => sum + count(tree), 0);
+  return CARRIED_FIELDS.filter(field => total(written, field.count) < total(trees, field.count)).map(field => field.name);
+};
+
+/**
+ * Writes trees in the given format. Formats that hold one tree per file
+ * (see TREE_FORMATS) only accept a single tree.
+ */
+export const writeTrees = (trees: TreeModel[], format: TreeFormat, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string => {
+  switch (format) {
+    case 'bracket':
+      return trees.map(tree => `${serializeBracketNotation(tree.nodes, tree.edges)}\n`).join('\n');
+    case 'ptb':
+      throw new FormatError('Penn Treebank files can be read but not written; use bracket notation');
+    case 'conllu':
+      return trees.map(tree => `${serializeConllu(tree.nodes, dependenciesOf(tree))}\n`).join('');
+    case 'json':
+      return `${JSON.stringify({ version: SCHEMA_VERSION, trees: trees.map(toPersistedTree) }, null, 2)}\n`;
+    case 'forest':
+    case 'qtree':
+    case 'tikz-qtree':
+      return `${trees.map(tree => generateLatex(tree.nodes, tree.edges, format, options.features, treeDirection(tree))).join('\n\n')}\n`;
+    case 'svg':
+      if (trees.length !== 1) throw new FormatError('An SVG image holds exactly one tree');
+      return renderTreeSvg(trees[0], { features: options.features, direction: treeDirection(trees[0]) }).svg;
+  }
+};
@@ -0,0 +1,79 @@
+import { EdgeControlPoint, EdgeType, MovementType, TreeNodeType } from '@/types/tree';
+
+// Edges leave just below the parent's label and arrive just above the child's
+const EDGE_OFFSET = 10;
+
+// Default control point is midway between start and end
+export const defaultControlPoint = (from: TreeNodeType, to: TreeNodeType): EdgeControlPoint => ({
+  x: (from.x + to.x) / 2,
+  y: (from.y + to.y) / 2
+});
+
+export const edgeEndpoints = (from: TreeNodeType, to: TreeNodeType, edge: EdgeType) => ({
+  start: { x: from.x, y: from.y + EDGE_OFFSET },
+  control: edge.controlPoint || defaultControlPoint(from, to),
+  end: { x: to.x, y: to.y - EDGE_OFFSET },
+});
+
+// Quadratic curve path shared by the editor and the exporters
+export const edgePath = (from: TreeNodeType, to: TreeNodeType, edge: EdgeType) => {
+  const { start, control, end } = edgeEndpoints(from, to, edge);
+  return `M ${start.x},${start.y} Q ${control.x},${control.y} ${end.x},${end.y}`;
+};
+
+// A roof reaches a little past the centers of its outermost words
+const ROOF_OVERHANG = 16;
+
+// Triangle from just below a collapsed node to just above the words it spans
+export const roofPoints = (node: TreeNodeType, words: TreeNodeType[]) => {
+  const xs = words.map(w => w.x);
+  const base = Math.min(...words.map(w => w.y)) - EDGE_OFFSET;
+  return {
+    apex: { x: node.x, y: node.y + EDGE_OFFSET },
+    left: { x: Math.min(...xs) - ROOF_OVERHANG, y: base },
+    right: { x: Math.max(...xs) + ROOF_OVERHANG, y: base },
+  };
+};
+
+export const roofPath = (node: TreeNodeType, words: TreeNodeType[]) => {
+  const { apex, left, right } = roofPoints(node, words);
+  return `M ${apex.x},${apex.y} L ${left.x},${left.y} L ${right.x},${right.y} Z`;
+};
+
+// Tight bounding box of a quadratic Bézier, using the extremum of each axis
+export const quadraticBounds = (p0: EdgeControlPoint, p1: EdgeControlPoint, p2: EdgeControlPoint) => {
+  const extremum = (a: number, b: number, c: number) => {
+    const denom = a - 2 * b + c;
+    const t = denom === 0 ? -1 : (a - b) / denom;
+    const values = [a, c];
+    if (t > 0 && t < 1) values.push((1 - t) * (1 - t) * a + 2 * (1 - t) * t * b + t * t * c);
+    return { min: Math.min(...values), max: Math.max(...values) };
+  };
+  const x = extremum(p0.x, p1.x, p2.x);
+  const y = extremum(p0.y, p1.y, p2.y);
+  return { minX: x.min, maxX: x.max, minY: y.min, maxY: y.max };
+};
+
+// Movement arrows leave below the trace and arrive below the landing site, curving under the tree.
+// Leaves need more room for the POS shown under the word.
+const MOVEMENT_OFFSET = 16;
+const LEAF_MOVEMENT_OFFSET = 44;
+const MOVEMENT_SAG = 80;
+
+const movementOffset = (node: TreeNodeType) => (node.isLeaf ? LEAF_MOVEMENT_OFFSET : MOVEMENT_OFFSET);
+
+export const defaultMovementControlPoint = (from: TreeNodeType, to: TreeNodeType): EdgeControlPoint => ({
+  x: (from.x + to.x) / 2,
+  y: Math.max(from.y, to.y) + MOVEMENT_SAG
+});
+
+export const movementEndpoints = (from: TreeNodeType, to: TreeNodeType, movement: MovementType) => ({
+  start: { x: from.x, y: from.y + movementOffset(from) },
+  control: movement.controlPoint || defaultMovementControlPoint(from, to),
+  end: { x: to.x, y: to.y + movementOffset(to) },
+});
+
+export const movementPath = (from: TreeNodeType, to: TreeNodeType, movement: MovementType) => {
+  const { start, control, end } = movementEndpoints(from, to, movement);
+  return `M ${start.x},${start.y} Q ${control.x},${control.y} ${end.x},${end.y}`;
+};
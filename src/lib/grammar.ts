@@ -0,0 +1,147 @@
+import { TagSet } from '@/types/tree';
+import { findCategory } from '@/lib/tagset';
+
+export interface GrammarRule {
+  lhs: string;
+  rhs: string[];
+}
+
+/**
+ * A context-free grammar over POS tags. Rules rewrite phrase symbols; the
+ * lexicon assigns each word the tags it can take, and those tags are the
+ * grammar's terminals. The start symbol is the left side of the first rule.
+ */
+export interface Grammar {
+  start: string;
+  rules: GrammarRule[];
+  lexicon: Map<string, string[]>;
+}
+
+// The grammar as the user edits it: one rule or lexicon entry per line
+export interface GrammarSource {
+  rules: string;
+  lexicon: string;
+}
+
+export class GrammarError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} on line ${line}`);
+    this.name = 'GrammarError';
+    this.line = line;
+  }
+}
+
+// Lines with their 1-based numbers, skipping blanks and # comments
+const contentLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line, i) => ({ text: line.replace(/#.*/, '').trim(), line: i + 1 }))
+    .filter(l => l.text);
+
+/**
+ * Reads rules written as "NP -> Det N | Det N PP" and lexicon entries written
+ * as "saw: V N". Every lexicon tag must belong to the tag set.
+ */
+export const parseGrammar = (source: GrammarSource, tagSet: TagSet): Grammar => {
+  const rules: GrammarRule[] = [];
+  contentLines(source.rules).forEach(({ text, line }) => {
+    const match = /^(\S+)\s*->\s*(.+)$/.exec(text);
+    if (!match) throw new GrammarError(`Expected "LHS -> RHS" but found "${text}"`, line);
+    match[2].split('|').forEach(alternative => {
+      const rhs = alternative.trim().split(/\s+/).filter(Boolean);
+      if (!rhs.length) throw new GrammarError(`Empty alternative for ${match[1]}`, line);
+      rules.push({ lhs: match[1], rhs });
+    });
+  });
+  if (!rules.length) throw new GrammarError('The grammar has no rules', 1);
+
+  const lexicon = new Map<string, string[]>();
+  contentLines(source.lexicon).forEach(({ text, line }) => {
+    const match = /^(.+?)\s*:\s*(.+)$/.exec(text);
+    if (!match) throw new GrammarError(`Expected "word: TAG" but found "${text}"`, line);
+    const tags = match[2].split(/\s+/);
+    const unknown = tags.find(tag => !findCategory(tagSet, tag));
+    if (unknown) throw new GrammarError(`Tag "${unknown}" is not in the ${tagSet.name} tag set`, line);
+    lexicon.set(match[1], [...(lexicon.get(match[1]) || []), ...tags]);
+  });
+
+  return { start: rules[0].lhs, rules, lexicon };
+};
+
+// Tags a word can take; lowercase entries also cover capitalized words
+export const lookupWord = (grammar: Grammar, word: string): string[] =>
+  grammar.lexicon.get(word) || grammar.lexicon.get(word.toLowerCase()) || [];
+
+const DEFAULT_LEXICON = (tag: (role: 'det' | 'pronoun' | 'noun' | 'verb' | 'prep' | 'adj' | 'adv') => string) => [
+  `I you he she it we they: ${tag('pronoun')}`,
+  `the a an this that: ${tag('det')}`,
+  `man woman dog cat park telescope book student teacher: ${tag('noun')}`,
+  `saw: ${tag('verb')} ${tag('noun')}`,
+  `barked read gave liked walked: ${tag('verb')}`,
+  `with in on under near: ${tag('prep')}`,
+  `old big small happy: ${tag('adj')}`,
+  `quickly often: ${tag('adv')}`,
+].flatMap(entry => {
+  // Shorthand for several words sharing tags, expanded to one entry per word
+  const [words, tags] = entry.split(': ');
+  return words.split(' ').map(word => `${word}: ${tags}`);
+});
+
+// Phrase symbols must differ from the POS terminals, so a phrase labeled like its head becomes XP
+const phraseSymbol = (tagSet: TagSet, tag: string) => {
+  const projects = findCategory(tagSet, tag)?.projects;
+  return projects && projects !== tag ? projects : `${tag}P`;
+};
+
+/**
+ * The label a parsed phrase takes in the tree: the inverse of `phraseSymbol`,
+ * so an XP standing in for a category that projects its own tag (as in bare
+ * phrase structure) is labeled with that tag and heads its projection.
+ */
+export const phraseLabel = (tagSet: TagSet, symbol: string): string => {
+  const tag = symbol.endsWith('P') ? symbol.slice(0, -1) : '';
+  return tag && findCategory(tagSet, tag)?.projects === tag ? tag : symbol;
+};
+
+/**
+ * A small starter grammar in the tag set's categories: the traditional set
+ * uses Det inside NP, the others a DP above NP with phrase labels taken from
+ * each category's projection. A category projecting its own tag gets an XP
+ * symbol instead, which `phraseLabel` turns back into the tag.
+ */
+export const defaultGrammar = (tagSet: TagSet): GrammarSource => {
+  if (findCategory(tagSet, 'Det')) {
+    const pronoun = findCategory(tagSet, 'PNP') ? 'PNP' : 'N';
+    return {
+      rules: [
+        'S -> NP VP',
+        `NP -> Det N | Det N PP | Det AP N | ${pronoun === 'N' ? 'N' : 'PNP | N'}`,
+        'AP -> A',
+        'VP -> V | V NP | V NP PP | V AdvP | aux VP',
+        'AdvP -> Adv',
+        'PP -> P NP',
+      ].join('\n'),
+      lexicon: DEFAULT_LEXICON(role => ({
+        det: 'Det', pronoun, noun: 'N', verb: 'V', prep: 'P', adj: 'A', adv: 'Adv',
+      })[role]).join('\n'),
+    };
+  }
+
+  const [DP, NP, VP, PP, AP, AdvP] = ['D', 'N', 'V', 'P', 'A', 'Adv'].map(tag => phraseSymbol(tagSet, tag));
+  return {
+    rules: [
+      `S -> ${DP} ${VP}`,
+      `${DP} -> D ${NP} | D`,
+      `${NP} -> N | N ${PP} | ${AP} N`,
+      `${AP} -> A`,
+      `${VP} -> V | V ${DP} | V ${DP} ${PP} | V ${AdvP}`,
+      `${AdvP} -> Adv`,
+      `${PP} -> P ${DP}`,
+    ].join('\n'),
+    lexicon: DEFAULT_LEXICON(role => ({
+      det: 'D', pronoun: 'D', noun: 'N', verb: 'V', prep: 'P', adj: 'A', adv: 'Adv',
+    })[role]).join('\n'),
+  };
+};
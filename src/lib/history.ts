@@ -0,0 +1,67 @@
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Key of the last recorded change; consecutive changes with the same key share one entry
+  lastKey: string | null;
+}
+
+export const HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(present: T): History<T> => ({
+  past: [],
+  present,
+  future: [],
+  lastKey: null,
+});
+
+/**
+ * Records `next` as a new undoable entry. When `key` matches the previous change
+ * (e.g. the same node being dragged) the present is replaced instead, so a
+ * continuous gesture collapses into a single entry.
+ */
+export const pushHistory = <T>(history: History<T>, next: T, key: string | null = null): History<T> => {
+  if (next === history.present) return history;
+  if (key !== null && key === history.lastKey) {
+    return { ...history, present: next, future: [] };
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    lastKey: key,
+  };
+};
+
+// Replaces the present without creating an entry, for derived or transient updates
+export const replacePresent = <T>(history: History<T>, next: T): History<T> =>
+  next === history.present ? history : { ...history, present: next };
+
+// Applies `update` to every undo and redo entry, leaving the present as it is
+export const mapEntries = <T>(history: History<T>, update: (entry: T) => T): History<T> =>
+  (!history.past.length && !history.future.length ? history
+    : { ...history, past: history.past.map(update), future: history.future.map(update) });
+
+// Ends the current gesture so the next change starts a new entry even with the same key
+export const endGesture = <T>(history: History<T>): History<T> =>
+  history.lastKey === null ? history : { ...history, lastKey: null };
+
+export const undo = <T>(history: History<T>): History<T> => {
+  if (!history.past.length) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastKey: null,
+  };
+};
+
+export const redo = <T>(history: History<T>): History<T> => {
+  if (!history.future.length) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastKey: null,
+  };
+};
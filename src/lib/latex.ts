@@ -0,0 +1,146 @@
+import { EdgeType, TextDirection, TreeNodeType } from '@/types/tree';
+import { getOrderedChildren, getRoots, getSubtreeIds, getYield } from '@/lib/structure';
+import { featureRows } from '@/lib/features';
+
+export type LatexFormat = 'forest' | 'qtree' | 'tikz-qtree';
+
+export const LATEX_FORMATS: { value: LatexFormat; label: string; preamble: string }[] = [
+  { value: 'forest', label: 'forest', preamble: '\\usepackage{forest}' },
+  { value: 'qtree', label: 'qtree', preamble: '\\usepackage{qtree}' },
+  { value: 'tikz-qtree', label: 'tikz-qtree', preamble: '\\usepackage{tikz-qtree}' },
+];
+
+// Intermediate form shared by all formats; leaves with a POS become preterminals
+interface LatexTree {
+  label: string;
+  children: LatexTree[];
+  roof?: string;  // Words under a triangle, for collapsed phrases
+}
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+const escapeLatex = (text: string) => text.replace(/[\\&%$#_{}~^]/g, ch => LATEX_SPECIALS[ch]);
+
+// Features follow the label in a small bracketed list, e.g. NP {\scriptsize[num: sg, +wh]}
+const withFeatures = (label: string, node: TreeNodeType) => {
+  const rows = featureRows(node).map(row => escapeLatex(row).replace('θ', '$\\theta$'));
+  return rows.length ? `${label} {\\scriptsize[${rows.join(', ')}]}` : label;
+};
+
+const toLatexTree = (nodes: TreeNodeType[], edges: EdgeType[], features: boolean, direction: TextDirection): LatexTree[] => {
+  const visited = new Set<number>();
+  const annotate = (label: string, node: TreeNodeType) => (features ? withFeatures(label, node) : label);
+  // The packages draw children left to right, so a right-to-left tree lists them last word first
+  const inDrawingOrder = <T>(items: T[]) => (direction === 'rtl' ? [...items].reverse() : items);
+
+  const convert = (node: TreeNodeType): LatexTree | null => {
+    if (visited.has(node.id)) return null;
+    visited.add(node.id);
+
+    const label = escapeLatex(node.label);
+    if (node.isLeaf) {
+      return node.pos
+        ? { label: annotate(escapeLatex(node.pos), node), children: [{ label, children: [] }] }
+        : { label: annotate(label, node), children: [] };
+    }
+
+    if (node.collapsed) {
+      getSubtreeIds(edges, node.id).forEach(id => visited.add(id));
+      const words = getYield(nodes, edges, node.id).filter(n => !n.empty).map(n => escapeLatex(n.label));
+      return { label: annotate(label, node), children: [], roof: words.join(' ') };
+    }
+
+    const children = inDrawingOrder(getOrderedChildren(nodes, edges, node.id))
+      .map(convert)
+      .filter((child): child is LatexTree => child !== null);
+    return { label: annotate(label, node), children };
+  };
+
+  return inDrawingOrder(getRoots(nodes, edges))
+    .map(convert)
+    .filter((tree): tree is LatexTree => tree !== null);
+};
+
+const isWord = (tree: LatexTree) => !tree.children.length && tree.roof === undefined;
+
+// forest treats brackets, commas and equals signs as syntax, so such labels are braced
+const forestLabel = (label: string) => (/[[\],=\s]/.test(label) || !label ? `{${label}}` : label);
+
+const renderForest = (tree: LatexTree, depth: number): string => {
+  const indent = '  '.repeat(depth);
+  if (tree.roof !== undefined) return `${indent}[${forestLabel(tree.label)} [{${tree.roof}}, roof]]`;
+  if (!tree.children.length) return `${indent}[${forestLabel(tree.label)}]`;
+  if (tree.children.every(isWord)) {
+    return `${indent}[${forestLabel(tree.label)} ${tree.children.map(child => `[${forestLabel(child.label)}]`).join(' ')}]`;
+  }
+  return [
+    `${indent}[${forestLabel(tree.label)}`,
+    ...tree.children.map(child => renderForest(child, depth + 1)),
+    `${indent}]`,
+  ].join('\n');
+};
+
+// qtree and tikz-qtree share the `[.Label ... ]` syntax; spaces must be braced
+const qtreeLabel = (label: string) => (/[\s[\]]/.test(label) || !label ? `{${label}}` : label);
+
+const renderQtree = (tree: LatexTree, depth: number, format: LatexFormat): string => {
+  const indent = '  '.repeat(depth);
+  if (tree.roof !== undefined) {
+    return format === 'qtree'
+      ? `${indent}\\qroof{${tree.roof}}.${qtreeLabel(tree.label)}`
+      : `${indent}[.${qtreeLabel(tree.label)} \\edge[roof]; {${tree.roof}} ]`;
+  }
+  if (!tree.children.length) return `${indent}${qtreeLabel(tree.label)}`;
+  if (tree.children.every(isWord)) {
+    return `${indent}[.${qtreeLabel(tree.label)} ${tree.children.map(child => qtreeLabel(child.label)).join(' ')} ]`;
+  }
+  return [
+    `${indent}[.${qtreeLabel(tree.label)}`,
+    ...tree.children.map(child => renderQtree(child, depth + 1, format)),
+    `${indent}]`,
+  ].join('\n');
+};
+
+// \Tree needs a bracketed root, even for an unattached word
+const renderQtreeRoot = (tree: LatexTree, format: LatexFormat) =>
+  tree.children.length || tree.roof !== undefined ? renderQtree(tree, 0, format) : `[.${qtreeLabel(tree.label)} ]`;
+
+/**
+ * Generates LaTeX source for the tree. Each unattached root becomes its own
+ * tree environment, since these packages draw a single rooted tree at a time.
+ * With `features`, node features and theta roles are written after the labels.
+ * A right-to-left tree is written mirrored, so it is drawn with its first word
+ * on the right; the words of a roof stay in reading order, for the document's
+ * bidi support (e.g. polyglossia) to set.
+ */
+export const generateLatex = (
+  nodes: TreeNodeType[],
+  edges: EdgeType[],
+  format: LatexFormat,
+  features = false,
+  direction: TextDirection = 'ltr'
+): string => {
+  const trees = toLatexTree(nodes, edges, features, direction);
+
+  return trees.map(tree => {
+    switch (format) {
+      case 'forest':
+        return `\\begin{forest}\n${renderForest(tree, 0)}\n\\end{forest}`;
+      case 'qtree':
+        return `\\Tree ${renderQtreeRoot(tree, format)}`;
+      case 'tikz-qtree':
+        return `\\begin{tikzpicture}\n\\Tree ${renderQtreeRoot(tree, format)}\n\\end{tikzpicture}`;
+    }
+  }).join('\n\n');
+};
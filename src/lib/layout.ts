@@ -0,0 +1,232 @@
+import { EdgeControlPoint, EdgeType, TreeNodeType, TreeState } from '@/types/tree';
+import { collapseStructure } from '@/lib/structure';
+
+export type LayoutMode = 'auto' | 'manual';
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  // Horizontal gap between neighbouring labels on the same row
+  gap?: number;
+  // Width a node's label occupies; defaults to an estimate from the label length
+  nodeWidth?: (node: TreeNodeType) => number;
+}
+
+const DEFAULT_GAP = 16;
+const MAX_LEVEL_GAP = 100;
+
+export const estimateNodeWidth = (node: TreeNodeType) => {
+  const text = Math.max(node.label.length, node.isLeaf ? (node.pos || '').length + 4 : 0);
+  return Math.max(node.isLeaf ? 60 : 36, text * 8 + 16);
+};
+
+// Horizontal extent of a laid-out subtree on each row, relative to the subtree root
+type Contour = Map<number, { left: number; right: number }>;
+
+interface Subtree {
+  id: number;
+  offsets: Map<number, number>; // node id -> x relative to the subtree root
+  contour: Contour;
+}
+
+/**
+ * Tidy tree layout in the Reingold–Tilford style. Internal nodes sit on the row
+ * of their depth and all words share the bottom row, in the order they appear in
+ * `nodes`. Sibling subtrees are pushed apart just far enough that no row overlaps,
+ * and each parent is centered over its outermost children. Only the edge
+ * structure and label widths are used, never the current coordinates.
+ * Collapsed nodes sit directly over the words of their roof; the nodes they
+ * hide get no position and stay where they are.
+ */
+export const computeLayout = (
+  allNodes: TreeNodeType[],
+  allEdges: EdgeType[],
+  options: LayoutOptions
+): Map<number, { x: number; y: number }> => {
+  const { nodes, edges } = collapseStructure(allNodes, allEdges);
+  const gap = options.gap ?? DEFAULT_GAP;
+  const widthOf = options.nodeWidth || estimateNodeWidth;
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const order = new Map(nodes.map((n, i) => [n.id, i]));
+
+  // Spanning forest: the first parent wins, so cycles and extra parents cannot break the layout
+  const children = new Map<number, number[]>();
+  const hasParent = new Set<number>();
+  edges.forEach(edge => {
+    if (!nodeById.has(edge.from) || !nodeById.has(edge.to) || edge.from === edge.to) return;
+    if (hasParent.has(edge.to)) return;
+    hasParent.add(edge.to);
+    children.set(edge.from, [...(children.get(edge.from) || []), edge.to]);
+  });
+
+  const roots: number[] = nodes.filter(n => !hasParent.has(n.id)).map(n => n.id);
+  const depth = new Map<number, number>();
+  const assignDepth = (id: number, d: number) => {
+    if (depth.has(id)) return;
+    depth.set(id, d);
+    (children.get(id) || []).forEach(child => assignDepth(child, d + 1));
+  };
+  roots.forEach(id => assignDepth(id, 0));
+  // Nodes caught in a cycle have no root above them; start a tree at the first one found
+  nodes.forEach(n => {
+    if (!depth.has(n.id)) {
+      roots.push(n.id);
+      assignDepth(n.id, 0);
+    }
+  });
+
+  // Order children (and trees) by the first word they span, which is sentence order
+  const firstWord = new Map<number, number>();
+  const spanStart = (id: number, seen = new Set<number>()): number => {
+    if (firstWord.has(id)) return firstWord.get(id)!;
+    if (seen.has(id)) return Infinity;
+    seen.add(id);
+    const node = nodeById.get(id)!;
+    const kids = (children.get(id) || []).filter(child => depth.get(child)! > depth.get(id)!);
+    const start = node.isLeaf ? order.get(id)! : Math.min(Infinity, ...kids.map(child => spanStart(child, seen)));
+    firstWord.set(id, start);
+    return start;
+  };
+  const byPosition = (a: number, b: number) =>
+    (spanStart(a) - spanStart(b)) || (order.get(a)! - order.get(b)!);
+
+  const maxInternalDepth = Math.max(0, ...nodes.filter(n => !n.isLeaf).map(n => depth.get(n.id)!));
+  const leafRow = maxInternalDepth + 1;
+  const rowOf = (id: number) => (nodeById.get(id)!.isLeaf ? leafRow : depth.get(id)!);
+
+  // Smallest shift that keeps `right` clear of `left` on every row they share
+  const separation = (left: Contour, right: Contour) => {
+    let shift = -Infinity;
+    right.forEach((extent, row) => {
+      const other = left.get(row);
+      if (other) shift = Math.max(shift, other.right - extent.left + gap);
+    });
+    return shift === -Infinity ? 0 : shift;
+  };
+
+  const mergeContour = (target: Contour, source: Contour, shift: number) => {
+    source.forEach((extent, row) => {
+      const current = target.get(row);
+      const left = extent.left + shift;
+      const right = extent.right + shift;
+      target.set(row, current
+        ? { left: Math.min(current.left, left), right: Math.max(current.right, right) }
+        : { left, right });
+    });
+  };
+
+  const layoutSubtree = (id: number): Subtree => {
+    const halfWidth = widthOf(nodeById.get(id)!) / 2;
+    const kids = (children.get(id) || [])
+      .filter(child => depth.get(child)! > depth.get(id)!)
+      .sort(byPosition)
+      .map(layoutSubtree);
+
+    const offsets = new Map<number, number>([[id, 0]]);
+    const contour: Contour = new Map();
+    if (!kids.length) {
+      contour.set(rowOf(id), { left: -halfWidth, right: halfWidth });
+      return { id, offsets, contour };
+    }
+
+    // Pack children left to right, then center the parent over the first and last
+    const positions: number[] = [];
+    const combined: Contour = new Map();
+    kids.forEach((kid, i) => {
+      const x = i === 0 ? 0 : separation(combined, kid.contour);
+      positions.push(x);
+      mergeContour(combined, kid.contour, x);
+    });
+    const center = (positions[0] + positions[positions.length - 1]) / 2;
+
+    kids.forEach((kid, i) => {
+      kid.offsets.forEach((offset, nodeId) => offsets.set(nodeId, offset + positions[i] - center));
+    });
+    mergeContour(contour, combined, -center);
+    mergeContour(contour, new Map([[rowOf(id), { left: -halfWidth, right: halfWidth }]]), 0);
+    return { id, offsets, contour };
+  };
+
+  // Lay the trees of a forest side by side as if they shared an invisible root
+  const absolute = new Map<number, number>();
+  const forest: Contour = new Map();
+  roots.sort(byPosition).forEach((root, i) => {
+    const tree = layoutSubtree(root);
+    const shift = i === 0 ? 0 : separation(forest, tree.contour);
+    tree.offsets.forEach((offset, nodeId) => absolute.set(nodeId, offset + shift));
+    mergeContour(forest, tree.contour, shift);
+  });
+
+  // Center horizontally; spread rows over the upper 10%–80% of the canvas
+  let minX = Infinity;
+  let maxX = -Infinity;
+  forest.forEach(extent => {
+    minX = Math.min(minX, extent.left);
+    maxX = Math.max(maxX, extent.right);
+  });
+  const margin = gap * 2;
+  const offsetX = maxX - minX + margin * 2 <= options.width
+    ? options.width / 2 - (minX + maxX) / 2
+    : margin - minX;
+  const top = options.height * 0.1;
+  const levelGap = Math.min(MAX_LEVEL_GAP, (options.height * 0.7) / Math.max(1, leafRow));
+
+  const positions = new Map<number, { x: number; y: number }>();
+  absolute.forEach((x, id) => {
+    positions.set(id, { x: x + offsetX, y: top + rowOf(id) * levelGap });
+  });
+  return positions;
+};
+
+type LayoutState = Pick<TreeState, 'nodes' | 'edges' | 'movements'>;
+
+type Displacement = Map<number, { dx: number; dy: number }>;
+
+// Custom control points follow the average movement of the link's two ends
+const shiftControlPoints = <L extends { from: number; to: number; controlPoint?: EdgeControlPoint }>(
+  links: L[],
+  moved: Displacement
+): L[] => links.map(link => {
+  if (!link.controlPoint) return link;
+  const from = moved.get(link.from) || { dx: 0, dy: 0 };
+  const to = moved.get(link.to) || { dx: 0, dy: 0 };
+  if (!from.dx && !from.dy && !to.dx && !to.dy) return link;
+  return {
+    ...link,
+    controlPoint: {
+      x: link.controlPoint.x + (from.dx + to.dx) / 2,
+      y: link.controlPoint.y + (from.dy + to.dy) / 2,
+    },
+  };
+});
+
+/**
+ * Moves nodes to their computed layout positions. Movement arrows play no part
+ * in the layout; like dominance edges, their custom control points are carried
+ * along with the nodes they connect.
+ */
+export const applyLayout = (tree: LayoutState, options: LayoutOptions): LayoutState => {
+  const positions = computeLayout(tree.nodes, tree.edges, options);
+  const moved: Displacement = new Map();
+
+  const nodes = tree.nodes.map(node => {
+    const position = positions.get(node.id);
+    if (!position || (position.x === node.x && position.y === node.y)) return node;
+    moved.set(node.id, { dx: position.x - node.x, dy: position.y - node.y });
+    return { ...node, ...position };
+  });
+
+  if (!moved.size) return { nodes: tree.nodes, edges: tree.edges, movements: tree.movements };
+  return {
+    nodes,
+    edges: shiftControlPoints(tree.edges, moved),
+    movements: shiftControlPoints(tree.movements, moved),
+  };
+};
+
+// Changes whenever something the layout depends on changes, and not when nodes are dragged
+export const structureKey = (nodes: TreeNodeType[], edges: EdgeType[]) =>
+  JSON.stringify([
+    nodes.map(n => [n.id, n.label, n.isLeaf, n.pos || '', !!n.collapsed]),
+    edges.map(e => [e.from, e.to]),
+  ]);
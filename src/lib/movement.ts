@@ -0,0 +1,88 @@
+import { MovementType, TreeNodeType, TreeState } from '@/types/tree';
+import { getYield } from '@/lib/structure';
+
+type MovementState = Pick<TreeState, 'nodes' | 'edges' | 'movements' | 'nextId'>;
+
+export type TraceKind = 't' | 'copy' | 'Ø';
+
+export const TRACE_KINDS: { value: TraceKind; label: string }[] = [
+  { value: 't', label: 'Trace (t)' },
+  { value: 'copy', label: 'Copy ⟨…⟩' },
+  { value: 'Ø', label: 'Null (Ø)' },
+];
+
+const COINDICES = ['i', 'j', 'k', 'l', 'm', 'n'];
+
+// First subscript not used in the tree: i, j, k, …, then i2, j2, …
+export const nextCoindex = (nodes: Pick<TreeNodeType, 'index'>[]): string => {
+  const used = new Set(nodes.map(n => n.index).filter(Boolean));
+  for (let round = 1; ; round++) {
+    const free = COINDICES.map(i => (round === 1 ? i : `${i}${round}`)).find(i => !used.has(i));
+    if (free) return free;
+  }
+};
+
+// An arrow from each coindexed trace t to the pronounced constituent sharing its index
+export const traceMovements = (nodes: TreeNodeType[]): MovementType[] =>
+  nodes
+    .filter(trace => trace.empty && trace.label === 't' && trace.index)
+    .flatMap(trace => {
+      const landing = nodes.find(n => !n.empty && n.index === trace.index);
+      return landing ? [{ id: `${trace.id}~${landing.id}`, from: trace.id, to: landing.id }] : [];
+    });
+
+/**
+ * Draws a movement arrow from `fromId` (the trace or copy position) to `toId`
+ * (the landing site) and coindexes both ends, reusing an index either end has.
+ */
+export const addMovement = <T extends MovementState>(state: T, fromId: number, toId: number): T => {
+  const from = state.nodes.find(n => n.id === fromId);
+  const to = state.nodes.find(n => n.id === toId);
+  if (!from || !to || fromId === toId) return state;
+  if (state.movements.some(m => m.from === fromId && m.to === toId)) return state;
+
+  const index = to.index || from.index || nextCoindex(state.nodes);
+  const movement: MovementType = { id: `${fromId}~${toId}`, from: fromId, to: toId };
+  return {
+    ...state,
+    nodes: state.nodes.map(n => (n.id === fromId || n.id === toId ? { ...n, index } : n)),
+    movements: [...state.movements, movement],
+  };
+};
+
+/**
+ * Inserts an empty-category leaf under `hostId`, after the words the host
+ * already spans, and links it to the moved constituent `landingId`.
+ */
+export const insertTrace = <T extends MovementState>(state: T, hostId: number, landingId: number, kind: TraceKind): T => {
+  const host = state.nodes.find(n => n.id === hostId);
+  const landing = state.nodes.find(n => n.id === landingId);
+  if (!host || !landing || host.isLeaf || hostId === landingId) return state;
+
+  const label = kind === 'copy'
+    ? `⟨${getYield(state.nodes, state.edges, landingId).map(n => n.label).join(' ') || landing.label}⟩`
+    : kind;
+  const trace: TreeNodeType = {
+    id: state.nextId,
+    label,
+    pos: '',
+    x: host.x,
+    y: host.y + 60,
+    isLeaf: true,
+    projectedParent: null,
+    empty: true,
+  };
+
+  // Leaves are kept in sentence order, so the trace goes right after the host's last word
+  const hostWords = getYield(state.nodes, state.edges, hostId).map(n => n.id);
+  const lastWord = state.nodes.reduce((last, n, i) => (hostWords.includes(n.id) ? i : last), -1);
+  const insertAt = lastWord === -1 ? state.nodes.length : lastWord + 1;
+  const nodes = [...state.nodes.slice(0, insertAt), trace, ...state.nodes.slice(insertAt)];
+
+  return addMovement({
+    ...state,
+    nodes,
+    edges: [...state.edges, { id: `${hostId}-${trace.id}`, from: hostId, to: trace.id }],
+    nextId: state.nextId + 1,
+  }, trace.id, landingId);
+};
@@ -0,0 +1,49 @@
+import { EdgeType, TreeNodeType } from '@/types/tree';
+import { getHiddenIds, getOrderedChildren, getParent, getRoofs, getRoots } from '@/lib/structure';
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Moves a focus cursor through the tree: up to the parent, down to the first
+ * child, and left or right between siblings (between unattached roots for
+ * nodes without a parent). Returns the current node when there is nowhere to go,
+ * and the first root when nothing is focused yet. Nodes hidden under a triangle
+ * are skipped: the words under a roof are its children and each other's siblings.
+ */
+export const navigate = (
+  nodes: TreeNodeType[],
+  edges: EdgeType[],
+  fromId: number | null,
+  direction: Direction
+): number | null => {
+  const roots = getRoots(nodes, edges);
+  const current = nodes.find(n => n.id === fromId);
+  if (!current) return roots[0]?.id ?? nodes[0]?.id ?? null;
+
+  const roofs = getRoofs(nodes, edges);
+  const hidden = getHiddenIds(nodes, edges);
+  const visibleParent = (id: number) => {
+    const seen = new Set<number>();
+    let parent = getParent(nodes, edges, id);
+    while (parent && hidden.has(parent.id) && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      parent = getParent(nodes, edges, parent.id);
+    }
+    return parent && !hidden.has(parent.id) ? parent : undefined;
+  };
+
+  switch (direction) {
+    case 'up':
+      return visibleParent(current.id)?.id ?? current.id;
+    case 'down':
+      return (roofs.get(current.id) ?? getOrderedChildren(nodes, edges, current.id))[0]?.id ?? current.id;
+    case 'left':
+    case 'right': {
+      const parent = visibleParent(current.id);
+      const siblings = !parent ? roots : roofs.get(parent.id) ?? getOrderedChildren(nodes, edges, parent.id);
+      const index = siblings.findIndex(n => n.id === current.id);
+      const next = siblings[index + (direction === 'left' ? -1 : 1)];
+      return next ? next.id : current.id;
+    }
+  }
+};
@@ -0,0 +1,221 @@
+import { TreeNodeType, TreeState } from '@/types/tree';
+import { getHiddenIds, getOrderedChildren, getParent, getSubtreeIds } from '@/lib/structure';
+import { projectionNodeIds } from '@/lib/projection';
+
+export class OperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OperationError';
+  }
+}
+
+type EditState = Pick<TreeState, 'nodes' | 'edges' | 'movements' | 'dependencies' | 'nextId' | 'selected'>;
+
+// Vertical distance between a new parent and its highest child when not laid out automatically
+const PARENT_OFFSET = 60;
+
+const describe = (node: TreeNodeType) => `"${node.label || node.id}"`;
+
+/**
+ * A leaf's projectedParent must dominate it; once an edit breaks that path the
+ * projection is no longer the leaf's and is left alone on the next POS change.
+ */
+const syncProjections = <T extends EditState>(state: T): T => {
+  const parentOf = new Map(state.edges.map(e => [e.to, e.from]));
+  const dominates = (top: number, id: number) => {
+    const seen = new Set<number>();
+    for (let current = parentOf.get(id); current !== undefined && !seen.has(current); current = parentOf.get(current)) {
+      if (current === top) return true;
+      seen.add(current);
+    }
+    return false;
+  };
+  let changed = false;
+  const nodes = state.nodes.map(n => {
+    if (!n.projectedParent || dominates(n.projectedParent, n.id)) return n;
+    changed = true;
+    return { ...n, projectedParent: null };
+  });
+  return changed ? { ...state, nodes } : state;
+};
+
+export const linkNodes = <T extends EditState>(state: T, fromId: number, toId: number): T => ({
+  ...state,
+  edges: [...state.edges, { id: `${fromId}-${toId}`, from: fromId, to: toId }],
+});
+
+// Wraps the given nodes in a new parent labeled 'New'
+export const wrapInParent = <T extends EditState>(state: T, childIds: number[]): T => {
+  const children = state.nodes.filter(n => childIds.includes(n.id));
+  if (!children.length) return state;
+
+  const x = (Math.min(...children.map(n => n.x)) + Math.max(...children.map(n => n.x))) / 2;
+  const y = Math.min(...children.map(n => n.y)) - PARENT_OFFSET;
+  const id = state.nextId;
+
+  return {
+    ...state,
+    nodes: [...state.nodes, { id, label: 'New', x, y, isLeaf: false }],
+    edges: [
+      ...state.edges,
+      ...children.map(child => ({ id: `${id}-${child.id}`, from: id, to: child.id })),
+    ],
+    nextId: id + 1,
+    selected: [],
+  };
+};
+
+export const deleteEdge = <T extends EditState>(state: T, edgeId: string): T => ({
+  ...state,
+  edges: state.edges.filter(e => e.id !== edgeId),
+});
+
+/**
+ * Removes a node with every edge, movement arrow and dependency arc touching
+ * it. Its children are left unattached, and a leaf whose projection it was no
+ * longer points to it.
+ */
+export const deleteNode = <T extends EditState>(state: T, id: number): T => ({
+  ...state,
+  nodes: state.nodes
+    .filter(n => n.id !== id)
+    .map(n => (n.projectedParent === id ? { ...n, projectedParent: null } : n)),
+  edges: state.edges.filter(e => e.from !== id && e.to !== id),
+  movements: state.movements.filter(m => m.from !== id && m.to !== id),
+  dependencies: state.dependencies.filter(d => d.head !== id && d.dependent !== id),
+  selected: state.selected.filter(s => s !== id),
+});
+
+/**
+ * Removes a node and attaches its children to its parent in its place, undoing
+ * a wrap. When the node topped a leaf's projection, the next node down the
+ * spine (an X' under a removed XP) becomes the projection's top.
+ */
+export const spliceNode = <T extends EditState>(state: T, id: number): T => {
+  const parent = getParent(state.nodes, state.edges, id);
+  const childIds = state.edges.filter(e => e.from === id).map(e => e.to);
+
+  const nodes = state.nodes.map(n => {
+    if (n.projectedParent !== id) return n;
+    const spine = projectionNodeIds(state.nodes, state.edges, n);
+    const below = spine.length > 1 ? spine[spine.length - 2] : undefined;
+    return { ...n, projectedParent: below ?? null };
+  });
+
+  const removed = deleteNode({ ...state, nodes }, id);
+  if (!parent) return syncProjections(removed);
+  return syncProjections({
+    ...removed,
+    edges: [
+      ...removed.edges,
+      ...childIds.map(child => ({ id: `${parent.id}-${child}`, from: parent.id, to: child })),
+    ],
+  });
+};
+
+// Removes a node together with everything it dominates, words included
+export const deleteSubtree = <T extends EditState>(state: T, id: number): T => {
+  const ids = getSubtreeIds(state.edges, id);
+  return syncProjections({
+    ...state,
+    nodes: state.nodes.filter(n => !ids.has(n.id)),
+    edges: state.edges.filter(e => !ids.has(e.from) && !ids.has(e.to)),
+    movements: state.movements.filter(m => !ids.has(m.from) && !ids.has(m.to)),
+    dependencies: state.dependencies.filter(d => !ids.has(d.dependent) && (d.head === null || !ids.has(d.head))),
+    selected: state.selected.filter(s => !ids.has(s)),
+  });
+};
+
+// Detaches a node from its current parent and puts it, with its subtree, under another
+export const reparent = <T extends EditState>(state: T, id: number, parentId: number): T => {
+  const node = state.nodes.find(n => n.id === id);
+  const parent = state.nodes.find(n => n.id === parentId);
+  if (!node || !parent) throw new OperationError('That node no longer exists');
+  if (parent.isLeaf) throw new OperationError(`Word ${describe(parent)} cannot dominate other nodes`);
+  if (getSubtreeIds(state.edges, id).has(parentId)) {
+    throw new OperationError(`${describe(node)} cannot be moved under itself or a node it dominates`);
+  }
+  return syncProjections({
+    ...state,
+    edges: [
+      ...state.edges.filter(e => e.to !== id),
+      { id: `${parentId}-${id}`, from: parentId, to: id },
+    ],
+  });
+};
+
+// Splits an edge with a new node labeled 'New' halfway between its ends
+export const insertOnEdge = <T extends EditState>(state: T, edgeId: string): T => {
+  const edge = state.edges.find(e => e.id === edgeId);
+  const from = state.nodes.find(n => n.id === edge?.from);
+  const to = state.nodes.find(n => n.id === edge?.to);
+  if (!edge || !from || !to) throw new OperationError('That edge no longer exists');
+
+  const id = state.nextId;
+  return {
+    ...state,
+    nodes: [...state.nodes, { id, label: 'New', x: (from.x + to.x) / 2, y: (from.y + to.y) / 2, isLeaf: false }],
+    edges: [
+      ...state.edges.filter(e => e.id !== edgeId),
+      { id: `${from.id}-${id}`, from: from.id, to: id },
+      { id: `${id}-${to.id}`, from: id, to: to.id },
+    ],
+    nextId: id + 1,
+  };
+};
+
+/**
+ * Swaps a node with its left or right sibling. The two subtrees trade places on
+ * the canvas and their words trade places in the sentence order.
+ */
+export const swapSibling = <T extends EditState>(state: T, id: number, direction: 'left' | 'right'): T => {
+  const parent = getParent(state.nodes, state.edges, id);
+  if (!parent) throw new OperationError('Only nodes with a parent can change places with a sibling');
+  const siblings = getOrderedChildren(state.nodes, state.edges, parent.id);
+  const index = siblings.findIndex(n => n.id === id);
+  const other = siblings[index + (direction === 'left' ? -1 : 1)];
+  if (!other) throw new OperationError(`${describe(siblings[index])} has no sibling to its ${direction}`);
+
+  const [left, right] = direction === 'left' ? [other, siblings[index]] : [siblings[index], other];
+  const leftIds = getSubtreeIds(state.edges, left.id);
+  const rightIds = getSubtreeIds(state.edges, right.id);
+  const extent = (ids: Set<number>) => {
+    const xs = state.nodes.filter(n => ids.has(n.id)).map(n => n.x);
+    return { min: Math.min(...xs), max: Math.max(...xs) };
+  };
+  const leftExtent = extent(leftIds);
+  const rightExtent = extent(rightIds);
+  const leftShift = rightExtent.max - leftExtent.max;
+  const rightShift = leftExtent.min - rightExtent.min;
+
+  // Words keep their slots in the node list, which is the sentence order, but trade owners
+  const isLeaf = (n: TreeNodeType) => n.isLeaf && (leftIds.has(n.id) || rightIds.has(n.id));
+  const words = state.nodes.filter(isLeaf);
+  const reordered = [...words.filter(n => rightIds.has(n.id)), ...words.filter(n => leftIds.has(n.id))];
+  let slot = 0;
+  const nodes = state.nodes
+    .map(n => (isLeaf(n) ? reordered[slot++] : n))
+    .map(n => {
+      if (leftIds.has(n.id)) return { ...n, x: n.x + leftShift };
+      if (rightIds.has(n.id)) return { ...n, x: n.x + rightShift };
+      return n;
+    });
+  return { ...state, nodes };
+};
+
+/**
+ * Collapses a phrase into a triangle over its words, or expands it again. The
+ * structure below stays in the tree; it is only hidden while collapsed.
+ */
+export const toggleCollapsed = <T extends EditState>(state: T, id: number): T => {
+  const node = state.nodes.find(n => n.id === id);
+  if (!node) throw new OperationError(`Node ${id} does not exist`);
+  if (node.isLeaf) throw new OperationError('Only phrases can be collapsed into a triangle');
+  if (!node.collapsed && !state.edges.some(e => e.from === id)) {
+    throw new OperationError(`${describe(node)} has nothing below it to collapse`);
+  }
+  const nodes = state.nodes.map(n => (n.id === id ? { ...n, collapsed: !n.collapsed } : n));
+  // Selected nodes the roof hides would otherwise be edited unseen
+  const hidden = getHiddenIds(nodes, state.edges);
+  return { ...state, nodes, selected: state.selected.filter(s => !hidden.has(s)) };
+};
@@ -0,0 +1,136 @@
+import { TagSet } from '@/types/tree';
+import { Grammar, lookupWord, phraseLabel } from '@/lib/grammar';
+import { escapeToken } from '@/lib/bracket';
+
+// A candidate parse: phrases have children, preterminals carry the word they tag
+export interface ParseTree {
+  label: string;
+  word?: string;
+  children: ParseTree[];
+}
+
+export class ParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+// Highly ambiguous sentences are cut off rather than enumerated in full
+export const MAX_PARSES = 50;
+
+interface Item {
+  rule: number;
+  dot: number;
+  origin: number;
+}
+
+/**
+ * Earley parser over the grammar's POS terminals. The chart records which
+ * symbols span which words; every parse of the whole sentence from the start
+ * symbol is then read off it, up to `limit` parses. Throws a ParseError for
+ * words missing from the lexicon.
+ */
+export const parseSentence = (grammar: Grammar, words: string[], limit = MAX_PARSES): ParseTree[] => {
+  const tags = words.map(word => lookupWord(grammar, word));
+  const unknown = words.filter((_, i) => !tags[i].length);
+  if (unknown.length) {
+    throw new ParseError(`Not in the lexicon: ${unknown.map(w => `"${w}"`).join(', ')}`);
+  }
+
+  const rulesFor = new Map<string, number[]>();
+  grammar.rules.forEach((rule, i) => rulesFor.set(rule.lhs, [...(rulesFor.get(rule.lhs) || []), i]));
+
+  // Completed constituents: "symbol:start:end" -> rules that built it
+  const spans = new Map<string, Set<number>>();
+  const complete = (symbol: string, start: number, end: number, rule: number) => {
+    const key = `${symbol}:${start}:${end}`;
+    spans.set(key, (spans.get(key) || new Set()).add(rule));
+  };
+
+  const chart: Item[][] = words.map(() => []).concat([[]]);
+  const seen = chart.map(() => new Set<string>());
+  const add = (k: number, item: Item) => {
+    const key = `${item.rule}:${item.dot}:${item.origin}`;
+    if (seen[k].has(key)) return;
+    seen[k].add(key);
+    chart[k].push(item);
+  };
+
+  (rulesFor.get(grammar.start) || []).forEach(rule => add(0, { rule, dot: 0, origin: 0 }));
+
+  for (let k = 0; k <= words.length; k++) {
+    // The column grows while it is processed
+    for (let i = 0; i < chart[k].length; i++) {
+      const item = chart[k][i];
+      const { lhs, rhs } = grammar.rules[item.rule];
+      if (item.dot < rhs.length) {
+        const next = rhs[item.dot];
+        (rulesFor.get(next) || []).forEach(rule => add(k, { rule, dot: 0, origin: k }));
+        if (k < words.length && tags[k].includes(next)) {
+          add(k + 1, { ...item, dot: item.dot + 1 });
+        }
+      } else {
+        complete(lhs, item.origin, k, item.rule);
+        chart[item.origin]
+          .filter(waiting => grammar.rules[waiting.rule].rhs[waiting.dot] === lhs)
+          .forEach(waiting => add(k, { ...waiting, dot: waiting.dot + 1 }));
+      }
+    }
+  }
+
+  // Read the trees off the chart; no rule is empty, so every symbol spans at least one word
+  const memo = new Map<string, ParseTree[]>();
+  const building = new Set<string>();
+
+  const trees = (symbol: string, start: number, end: number): ParseTree[] => {
+    const key = `${symbol}:${start}:${end}`;
+    if (memo.has(key)) return memo.get(key)!;
+    // A unary cycle (A -> B, B -> A) would otherwise recurse forever
+    if (building.has(key)) return [];
+    building.add(key);
+
+    const found: ParseTree[] = [];
+    if (end === start + 1 && tags[start].includes(symbol)) {
+      found.push({ label: symbol, word: words[start], children: [] });
+    }
+    (spans.get(key) || new Set<number>()).forEach(rule => {
+      sequences(grammar.rules[rule].rhs, 0, start, end).forEach(children => {
+        if (found.length < limit) found.push({ label: symbol, children });
+      });
+    });
+
+    building.delete(key);
+    memo.set(key, found);
+    return found;
+  };
+
+  const sequences = (rhs: string[], index: number, start: number, end: number): ParseTree[][] => {
+    if (index === rhs.length) return start === end ? [[]] : [];
+    const result: ParseTree[][] = [];
+    const remaining = rhs.length - index - 1;
+    for (let split = start + 1; split <= end - remaining && result.length < limit; split++) {
+      const heads = trees(rhs[index], start, split);
+      if (!heads.length) continue;
+      const tails = sequences(rhs, index + 1, split, end);
+      heads.forEach(head => tails.forEach(tail => {
+        if (result.length < limit) result.push([head, ...tail]);
+      }));
+    }
+    return result;
+  };
+
+  return words.length ? trees(grammar.start, 0, words.length) : [];
+};
+
+/**
+ * Writes a parse as bracket notation, with phrase labels in `tagSet`'s
+ * categories so that loading it links each word to its projection.
+ */
+export const parseTreeToBrackets = (tree: ParseTree, tagSet: TagSet): string =>
+  tree.word !== undefined
+    ? `[${escapeToken(tree.label)} ${escapeToken(tree.word)}]`
+    : `[${[
+      escapeToken(phraseLabel(tagSet, tree.label)),
+      ...tree.children.map(child => parseTreeToBrackets(child, tagSet)),
+    ].join(' ')}]`;
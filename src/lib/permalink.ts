@@ -0,0 +1,143 @@
+import { DependencyType, EdgeControlPoint, TagSet, TextDirection } from '@/types/tree';
+import { TAG_SET_PRESETS, isPreset } from '@/lib/tagset';
+import { PersistedTree, SCHEMA_VERSION, StorageError, migrateTree } from '@/lib/storage';
+
+// 'edit' links open the tree for editing, 'view' links open it read-only
+export type PermalinkMode = 'edit' | 'view';
+
+const HASH_KEYS: Record<PermalinkMode, string> = { edit: 'tree', view: 'view' };
+
+export class PermalinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermalinkError';
+  }
+}
+
+// Links are stored without the ids that can be rebuilt from their ends
+interface CompactLink {
+  f: number;
+  t: number;
+  c?: [number, number];
+  i?: string;
+}
+
+interface Payload {
+  v: number;
+  s: string;
+  // Presets travel as their id, custom tag sets in full
+  g: string | TagSet;
+  n: Record<string, unknown>[];
+  e: CompactLink[];
+  m: CompactLink[];
+  d?: DependencyType[];
+  r?: TextDirection;
+  x: number;
+}
+
+const round = (value: number) => Math.round(value);
+
+const compactLink = (link: { id: string; from: number; to: number; controlPoint?: EdgeControlPoint }, separator: string): CompactLink => ({
+  f: link.from,
+  t: link.to,
+  ...(link.controlPoint && { c: [round(link.controlPoint.x), round(link.controlPoint.y)] }),
+  ...(link.id !== `${link.from}${separator}${link.to}` && { i: link.id }),
+});
+
+const expandLink = (link: CompactLink, separator: string) => ({
+  id: link.i ?? `${link.f}${separator}${link.t}`,
+  from: link.f,
+  to: link.t,
+  ...(link.c && { controlPoint: { x: link.c[0], y: link.c[1] } }),
+});
+
+// Positions are rounded and fields holding their default value are dropped
+const toPayload = (tree: PersistedTree): Payload => ({
+  v: SCHEMA_VERSION,
+  s: tree.sentence,
+  g: isPreset(tree.tagSet) ? tree.tagSet.id : tree.tagSet,
+  n: tree.nodes.map(node => {
+    const compact: Record<string, unknown> = { ...node, x: round(node.x), y: round(node.y) };
+    Object.keys(compact).forEach(key => {
+      if (compact[key] === undefined || compact[key] === null || compact[key] === '' || compact[key] === false) {
+        delete compact[key];
+      }
+    });
+    return compact;
+  }),
+  e: tree.edges.map(edge => compactLink(edge, '-')),
+  m: tree.movements.map(movement => compactLink(movement, '~')),
+  ...(tree.dependencies.length ? { d: tree.dependencies } : {}),
+  ...(tree.direction && { r: tree.direction }),
+  x: tree.nextId,
+});
+
+const fromPayload = (payload: Payload): PersistedTree => {
+  const tagSet = typeof payload.g === 'string'
+    ? TAG_SET_PRESETS.find(t => t.id === payload.g)
+    : payload.g;
+  if (!tagSet) throw new PermalinkError(`The link uses an unknown tag set "${payload.g}"`);
+  const tree = {
+    sentence: payload.s,
+    tagSet,
+    // Required fields dropped for holding their default value (false, '') are restored
+    nodes: payload.n.map(node => ({ isLeaf: false, label: '', ...node })),
+    edges: (payload.e || []).map(edge => expandLink(edge, '-')),
+    movements: (payload.m || []).map(movement => expandLink(movement, '~')),
+    // Links from before dependencies existed get them from the migration
+    ...(payload.v > 3 && { dependencies: payload.d || [] }),
+    nextId: payload.x,
+    ...(payload.r && { direction: payload.r }),
+  };
+  try {
+    return migrateTree(tree, payload.v);
+  } catch (err) {
+    if (!(err instanceof StorageError)) throw err;
+    throw new PermalinkError(err.message);
+  }
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Compresses a tree into a string safe to put in a URL hash
+export const encodePermalink = async (tree: PersistedTree): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(toPayload(tree)));
+  return toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+};
+
+export const decodePermalink = async (data: string): Promise<PersistedTree> => {
+  let payload: Payload;
+  try {
+    const json = await pipe(fromBase64Url(data), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new PermalinkError('The link is damaged or incomplete');
+  }
+  if (!payload || !Array.isArray(payload.n)) throw new PermalinkError('The link does not contain a tree');
+  return fromPayload(payload);
+};
+
+export const permalinkHash = (data: string, mode: PermalinkMode) => `#${HASH_KEYS[mode]}=${data}`;
+
+// Reads a hash such as "#view=..." back into its mode and data; null when it holds no tree
+export const parsePermalinkHash = (hash: string): { mode: PermalinkMode; data: string } | null => {
+  const match = /^#(tree|view)=([\w-]+)$/.exec(hash);
+  if (!match) return null;
+  return { mode: match[1] === 'view' ? 'view' : 'edit', data: match[2] };
+};
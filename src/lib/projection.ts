@@ -0,0 +1,76 @@
+import { EdgeType, TreeNodeType, TreeState } from '@/types/tree';
+import { projectionLabels } from '@/lib/tagset';
+
+type ProjectionState = Pick<TreeState, 'nodes' | 'edges' | 'movements' | 'nextId' | 'tagSet'>;
+
+// Vertical distance between a head and each projection level when not laid out automatically
+const LEVEL_HEIGHT = 60;
+
+/**
+ * Nodes making up a leaf's projection: its projectedParent plus any bar-level
+ * nodes on the path up to it. If the path was rewired by hand only the
+ * projectedParent itself is returned.
+ */
+export const projectionNodeIds = (nodes: TreeNodeType[], edges: EdgeType[], leaf: TreeNodeType): number[] => {
+  if (!leaf.projectedParent) return [];
+  const top = leaf.projectedParent;
+  const spine: number[] = [];
+  let current = leaf.id;
+  for (let steps = 0; steps < nodes.length; steps++) {
+    const parent = edges.find(e => e.to === current)?.from;
+    if (parent === undefined) break;
+    spine.push(parent);
+    if (parent === top) return spine;
+    current = parent;
+  }
+  return [top];
+};
+
+const removeNodes = <T extends Pick<TreeState, 'nodes' | 'edges' | 'movements'>>(state: T, ids: number[]): T => ({
+  ...state,
+  nodes: state.nodes.filter(n => !ids.includes(n.id)),
+  edges: state.edges.filter(e => !ids.includes(e.from) && !ids.includes(e.to)),
+  movements: state.movements.filter(m => !ids.includes(m.from) && !ids.includes(m.to)),
+});
+
+/**
+ * Applies an edit to a node. When a leaf's POS changes, the projection created
+ * for the old POS is removed and the tag set's projection for the new one
+ * (XP, or X' and XP with an X-bar spine) is built above the leaf.
+ */
+export const applyNodeUpdate = <T extends ProjectionState>(state: T, updatedNode: TreeNodeType): T => {
+  const oldNode = state.nodes.find(n => n.id === updatedNode.id);
+  if (!oldNode) return state;
+
+  let next = state;
+  let node = updatedNode;
+
+  if (node.isLeaf && oldNode.pos !== node.pos) {
+    next = removeNodes(next, projectionNodeIds(next.nodes, next.edges, oldNode));
+    node = { ...node, projectedParent: null };
+
+    const labels = projectionLabels(next.tagSet, node.pos);
+    if (labels.length) {
+      const created: TreeNodeType[] = labels.map((label, i) => ({
+        id: next.nextId + i,
+        label,
+        x: node.x,
+        y: node.y - LEVEL_HEIGHT * (i + 1),
+        isLeaf: false,
+      }));
+      const chain = [node, ...created];
+      next = {
+        ...next,
+        nodes: [...next.nodes, ...created],
+        edges: [
+          ...next.edges,
+          ...created.map((parent, i) => ({ id: `${parent.id}-${chain[i].id}`, from: parent.id, to: chain[i].id })),
+        ],
+        nextId: next.nextId + created.length,
+      };
+      node = { ...node, projectedParent: created[created.length - 1].id };
+    }
+  }
+
+  return { ...next, nodes: next.nodes.map(n => (n.id === node.id ? node : n)) };
+};
@@ -0,0 +1,232 @@
+import { EdgeType, TagSet, TreeNodeType } from '@/types/tree';
+import { getYield } from '@/lib/structure';
+import { TreeIndex, indexTree } from '@/lib/treeIndex';
+
+/**
+ * Structural relations between nodes, computed on the dominance graph in
+ * `edges`. Dominance is proper: no node dominates itself. A node with more
+ * than one parent is treated as hanging under the first, as elsewhere.
+ */
+
+export type Relation = 'c-command' | 'm-command' | 'government' | 'dominance' | 'precedence';
+
+export const RELATIONS: { value: Relation; label: string; verb: string }[] = [
+  { value: 'c-command', label: 'C-command', verb: 'c-commands' },
+  { value: 'm-command', label: 'M-command', verb: 'm-commands' },
+  { value: 'government', label: 'Government', verb: 'governs' },
+  { value: 'dominance', label: 'Dominance', verb: 'dominates' },
+  { value: 'precedence', label: 'Precedence', verb: 'precedes' },
+];
+
+// Clause labels that count as maximal projections without being a tag's projection
+const CLAUSE_LABELS = ['S', "S'", 'SBAR', 'IP', 'TP', 'CP'];
+
+interface Graph {
+  nodeById: Map<number, TreeNodeType>;
+  parentOf: Map<number, number>;
+  childrenOf: Map<number, number[]>;
+}
+
+// Built once per tree index, which is itself cached per nodes and edges arrays
+const graphCache = new WeakMap<TreeIndex, Graph>();
+
+const buildGraph = (nodes: TreeNodeType[], edges: EdgeType[]): Graph => {
+  const index = indexTree(nodes, edges);
+  const cached = graphCache.get(index);
+  if (cached) return cached;
+  const { nodeById } = index;
+  const parentOf = new Map<number, number>();
+  const childrenOf = new Map<number, number[]>();
+  edges.forEach(e => {
+    if (!nodeById.has(e.from) || !nodeById.has(e.to)) return;
+    if (!parentOf.has(e.to)) parentOf.set(e.to, e.from);
+    const children = childrenOf.get(e.from);
+    if (children) children.push(e.to); else childrenOf.set(e.from, [e.to]);
+  });
+  const graph = { nodeById, parentOf, childrenOf };
+  graphCache.set(index, graph);
+  return graph;
+};
+
+// Nodes dominating `id`, nearest first; stops if the graph loops
+const pathOf = (graph: Graph, id: number): number[] => {
+  const path: number[] = [];
+  for (let current = graph.parentOf.get(id); current !== undefined; current = graph.parentOf.get(current)) {
+    if (current === id || path.includes(current)) break;
+    path.push(current);
+  }
+  return path;
+};
+
+const subtreeOf = (graph: Graph, id: number): Set<number> => {
+  const seen = new Set<number>();
+  const stack = [id];
+  while (stack.length) {
+    const current = stack.pop()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(graph.childrenOf.get(current) || []));
+  }
+  return seen;
+};
+
+const isMaximal = (graph: Graph, tagSet: TagSet, id: number) => {
+  const node = graph.nodeById.get(id);
+  if (!node || node.isLeaf) return false;
+  const phrase = CLAUSE_LABELS.includes(node.label) || node.label.endsWith('P')
+    || tagSet.categories.some(c => c.projects === node.label);
+  // The lower segment of an adjunction structure (NP over NP) is not the maximal projection
+  const parent = graph.nodeById.get(graph.parentOf.get(id)!);
+  return phrase && parent?.label !== node.label;
+};
+
+const dominatesIn = (graph: Graph, a: number, b: number) => a !== b && pathOf(graph, b).includes(a);
+
+// Leaf order as drawn, left to right
+const leafOrder = (nodes: TreeNodeType[]) =>
+  new Map(nodes.filter(n => n.isLeaf).sort((a, b) => a.x - b.x).map((n, i) => [n.id, i]));
+
+const cCommandsIn = (graph: Graph, a: number, b: number) => {
+  if (a === b || dominatesIn(graph, a, b) || dominatesIn(graph, b, a)) return false;
+  // The first branching node above `a`; unary nodes on the way do not count
+  const branching = pathOf(graph, a).find(id => (graph.childrenOf.get(id) || []).length > 1);
+  return branching !== undefined && dominatesIn(graph, branching, b);
+};
+
+const mCommandsIn = (graph: Graph, tagSet: TagSet, a: number, b: number) => {
+  if (a === b || dominatesIn(graph, a, b) || dominatesIn(graph, b, a)) return false;
+  const path = pathOf(graph, a);
+  const maximal = path.find(id => isMaximal(graph, tagSet, id)) ?? path[path.length - 1];
+  return maximal !== undefined && dominatesIn(graph, maximal, b);
+};
+
+// A head governs what it m-commands unless a maximal projection shields it
+const governsIn = (graph: Graph, tagSet: TagSet, a: number, b: number) => {
+  if (!graph.nodeById.get(a)?.isLeaf || !mCommandsIn(graph, tagSet, a, b)) return false;
+  const above = pathOf(graph, a);
+  return !pathOf(graph, b).some(id => !above.includes(id) && isMaximal(graph, tagSet, id));
+};
+
+const precedesIn = (graph: Graph, order: Map<number, number>, a: number, b: number) => {
+  if (a === b || dominatesIn(graph, a, b) || dominatesIn(graph, b, a)) return false;
+  const positions = (id: number) => Array.from(subtreeOf(graph, id))
+    .map(n => order.get(n))
+    .filter((i): i is number => i !== undefined);
+  const before = positions(a);
+  const after = positions(b);
+  if (before.length && after.length) return Math.max(...before) < Math.min(...after);
+  // Without words, fall back on where the nodes are drawn
+  return graph.nodeById.get(a)!.x < graph.nodeById.get(b)!.x;
+};
+
+// Nodes dominating `id`, nearest first
+export const getDominatingPath = (nodes: TreeNodeType[], edges: EdgeType[], id: number): number[] =>
+  pathOf(buildGraph(nodes, edges), id);
+
+export const dominates = (nodes: TreeNodeType[], edges: EdgeType[], a: number, b: number) =>
+  dominatesIn(buildGraph(nodes, edges), a, b);
+
+// Other children of the node's parent
+export const getSisters = (nodes: TreeNodeType[], edges: EdgeType[], id: number): number[] => {
+  const graph = buildGraph(nodes, edges);
+  const parent = graph.parentOf.get(id);
+  return parent === undefined ? [] : (graph.childrenOf.get(parent) || []).filter(child => child !== id);
+};
+
+/** A c-commands B when neither dominates the other and the first branching node above A dominates B. */
+export const cCommands = (nodes: TreeNodeType[], edges: EdgeType[], a: number, b: number) =>
+  cCommandsIn(buildGraph(nodes, edges), a, b);
+
+/** A m-commands B when neither dominates the other and the first maximal projection above A dominates B. */
+export const mCommands = (nodes: TreeNodeType[], edges: EdgeType[], tagSet: TagSet, a: number, b: number) =>
+  mCommandsIn(buildGraph(nodes, edges), tagSet, a, b);
+
+/**
+ * A governs B when A is a head (a word), A m-commands B, and no maximal
+ * projection dominates B without also dominating A.
+ */
+export const governs = (nodes: TreeNodeType[], edges: EdgeType[], tagSet: TagSet, a: number, b: number) =>
+  governsIn(buildGraph(nodes, edges), tagSet, a, b);
+
+/** A precedes B when neither dominates the other and all of A's words come before all of B's. */
+export const precedes = (nodes: TreeNodeType[], edges: EdgeType[], a: number, b: number) =>
+  precedesIn(buildGraph(nodes, edges), leafOrder(nodes), a, b);
+
+/** The nodes that `id` stands in `relation` to, e.g. everything it c-commands. */
+export const getRelated = (
+  nodes: TreeNodeType[],
+  edges: EdgeType[],
+  tagSet: TagSet,
+  relation: Relation,
+  id: number
+): number[] => {
+  const graph = buildGraph(nodes, edges);
+  if (!graph.nodeById.has(id)) return [];
+  if (relation === 'dominance') return Array.from(subtreeOf(graph, id)).filter(n => n !== id);
+  const order = leafOrder(nodes);
+  const test = {
+    'c-command': (b: number) => cCommandsIn(graph, id, b),
+    'm-command': (b: number) => mCommandsIn(graph, tagSet, id, b),
+    'government': (b: number) => governsIn(graph, tagSet, id, b),
+    'precedence': (b: number) => precedesIn(graph, order, id, b),
+  }[relation];
+  return nodes.map(n => n.id).filter(test);
+};
+
+/** Every relation `a` bears to `b`, as sentences such as 'NP c-commands V'. */
+export const describeRelations = (nodes: TreeNodeType[], edges: EdgeType[], tagSet: TagSet, a: number, b: number): string[] => {
+  const graph = buildGraph(nodes, edges);
+  // Phrases are named with their words, e.g. 'NP (the dog)'
+  const name = (id: number) => {
+    const node = graph.nodeById.get(id);
+    if (!node) return `node ${id}`;
+    const words = node.isLeaf ? '' : getYield(nodes, edges, id).filter(n => !n.empty).map(n => n.label).join(' ');
+    return words ? `${node.label} (${words})` : node.label || `node ${id}`;
+  };
+  const holds = (relation: Relation, x: number, y: number) => ({
+    'c-command': () => cCommandsIn(graph, x, y),
+    'm-command': () => mCommandsIn(graph, tagSet, x, y),
+    'government': () => governsIn(graph, tagSet, x, y),
+    'dominance': () => dominatesIn(graph, x, y),
+    'precedence': () => precedesIn(graph, leafOrder(nodes), x, y),
+  }[relation]());
+
+  const sentences: string[] = [];
+  if (graph.parentOf.has(a) && graph.parentOf.get(a) === graph.parentOf.get(b)) {
+    sentences.push(`${name(a)} and ${name(b)} are sisters`);
+  }
+  [[a, b], [b, a]].forEach(([x, y]) => {
+    RELATIONS.forEach(({ value, verb }) => {
+      if (holds(value, x, y)) sentences.push(`${name(x)} ${verb} ${name(y)}`);
+    });
+  });
+  return sentences;
+};
+
+export type RelationHighlight = 'related' | 'sister' | 'path';
+
+// Canvas colours for the selected node's relations
+export const RELATION_COLORS: Record<RelationHighlight, string> = {
+  related: '#7c3aed',
+  sister: '#0d9488',
+  path: '#ea580c',
+};
+
+/**
+ * How each node relates to `id` when the inspector highlights its relations:
+ * its sisters, the nodes on its dominating path, and the nodes it stands in
+ * `relation` to. A sister is shown as a sister even where it is also related.
+ */
+export const relationHighlights = (
+  nodes: TreeNodeType[],
+  edges: EdgeType[],
+  tagSet: TagSet,
+  relation: Relation,
+  id: number
+): Map<number, RelationHighlight> => {
+  const highlights = new Map<number, RelationHighlight>();
+  getRelated(nodes, edges, tagSet, relation, id).forEach(n => highlights.set(n, 'related'));
+  getDominatingPath(nodes, edges, id).forEach(n => highlights.set(n, 'path'));
+  getSisters(nodes, edges, id).forEach(n => highlights.set(n, 'sister'));
+  return highlights;
+};
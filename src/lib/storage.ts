@@ -0,0 +1,215 @@
+import { TagSet, TreeModel } from '@/types/tree';
+import { GrammarSource } from '@/lib/grammar';
+import { ExerciseSet } from '@/lib/exercise';
+import { TRADITIONAL_TAG_SET } from '@/lib/tagset';
+
+// Bump when the shape of saved trees changes and add a matching entry to MIGRATIONS
+export const SCHEMA_VERSION = 4;
+
+// Saved trees are the tree model; selection, linking and errors are transient
+export type PersistedTree = TreeModel;
+
+export interface SavedTree {
+  id: string;
+  name: string;
+  savedAt: number;
+  version: number;
+  tree: PersistedTree;
+}
+
+export interface Draft {
+  version: number;
+  savedAt: number;
+  activeId: string | null;
+  tree: PersistedTree;
+}
+
+type RawTree = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a tree saved at version n to version n + 1
+const MIGRATIONS: Record<number, (tree: RawTree) => RawTree> = {
+  // Version 2 stores the tag set with each tree; older trees were built with the original tags
+  1: tree => ({ ...tree, tagSet: TRADITIONAL_TAG_SET }),
+  // Version 3 adds movement arrows
+  2: tree => ({ ...tree, movements: [] }),
+  // Version 4 adds dependency arcs
+  3: tree => ({ ...tree, dependencies: [] }),
+};
+
+const LIBRARY_KEY = 'sentence_trees:library';
+const DRAFT_KEY = 'sentence_trees:draft';
+const TAG_SETS_KEY = 'sentence_trees:tagsets';
+const GRAMMAR_KEY = 'sentence_trees:grammar';
+const EXERCISES_KEY = 'sentence_trees:exercises';
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export const toPersistedTree = (state: PersistedTree): PersistedTree => ({
+  sentence: state.sentence,
+  tagSet: state.tagSet,
+  nodes: state.nodes,
+  edges: state.edges,
+  movements: state.movements,
+  dependencies: state.dependencies,
+  nextId: state.nextId,
+  // Trees without a direction of their own follow their words'
+  ...(state.direction && { direction: state.direction }),
+});
+
+/**
+ * Brings a tree saved at `version` up to SCHEMA_VERSION. Throws a StorageError
+ * for saves written by a newer version of the app or missing a migration step.
+ */
+export const migrateTree = (tree: unknown, version: number): PersistedTree => {
+  if (!tree || typeof tree !== 'object') {
+    throw new StorageError('Saved tree is empty or corrupted');
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new StorageError(`Saved tree uses schema version ${version}, newer than this app supports (${SCHEMA_VERSION})`);
+  }
+
+  let migrated = tree as RawTree;
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    const migration = MIGRATIONS[v];
+    if (!migration) {
+      throw new StorageError(`No migration from schema version ${v}`);
+    }
+    migrated = migration(migrated);
+  }
+
+  if (!Array.isArray(migrated.nodes) || !Array.isArray(migrated.edges)) {
+    throw new StorageError('Saved tree is missing its nodes or edges');
+  }
+  return migrated as unknown as PersistedTree;
+};
+
+const readJSON = <T>(key: string): T | null => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJSON = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    throw new StorageError('Browser storage is unavailable or full');
+  }
+};
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Entries are returned as stored; run migrateTree on an entry's tree before opening it
+export const loadLibrary = (): SavedTree[] => {
+  const library = readJSON<SavedTree[]>(LIBRARY_KEY);
+  return Array.isArray(library) ? library : [];
+};
+
+const saveLibrary = (library: SavedTree[]) => writeJSON(LIBRARY_KEY, library);
+
+// Saves under `id` when given, replacing that entry, otherwise creates a new entry
+export const saveTree = (name: string, tree: PersistedTree, id?: string | null): SavedTree => {
+  const entry: SavedTree = {
+    id: id || createId(),
+    name,
+    savedAt: Date.now(),
+    version: SCHEMA_VERSION,
+    tree: toPersistedTree(tree),
+  };
+  const library = loadLibrary();
+  const index = library.findIndex(t => t.id === entry.id);
+  saveLibrary(index === -1 ? [...library, entry] : library.map(t => (t.id === entry.id ? entry : t)));
+  return entry;
+};
+
+export const renameTree = (id: string, name: string) => {
+  saveLibrary(loadLibrary().map(t => (t.id === id ? { ...t, name } : t)));
+};
+
+export const duplicateTree = (id: string): SavedTree | null => {
+  const library = loadLibrary();
+  const original = library.find(t => t.id === id);
+  if (!original) return null;
+  const copy = { ...original, id: createId(), name: `${original.name} (copy)`, savedAt: Date.now() };
+  saveLibrary([...library, copy]);
+  return copy;
+};
+
+export const deleteTree = (id: string) => {
+  saveLibrary(loadLibrary().filter(t => t.id !== id));
+};
+
+export const loadDraft = (): Draft | null => readJSON<Draft>(DRAFT_KEY);
+
+// Autosave is best-effort: returns false instead of throwing when storage is unavailable
+export const saveDraft = (tree: PersistedTree, activeId: string | null): boolean => {
+  try {
+    writeJSON(DRAFT_KEY, {
+      version: SCHEMA_VERSION,
+      savedAt: Date.now(),
+      activeId,
+      tree: toPersistedTree(tree),
+    });
+    return true;
+  } catch (err) {
+    if (!(err instanceof StorageError)) throw err;
+    return false;
+  }
+};
+
+// Custom tag sets; the presets live in code and are never stored
+export const loadTagSets = (): TagSet[] => {
+  const tagSets = readJSON<TagSet[]>(TAG_SETS_KEY);
+  return Array.isArray(tagSets) ? tagSets : [];
+};
+
+export const saveTagSet = (tagSet: TagSet) => {
+  const tagSets = loadTagSets();
+  const index = tagSets.findIndex(t => t.id === tagSet.id);
+  writeJSON(TAG_SETS_KEY, index === -1 ? [...tagSets, tagSet] : tagSets.map(t => (t.id === tagSet.id ? tagSet : t)));
+};
+
+export const deleteTagSet = (id: string) => {
+  writeJSON(TAG_SETS_KEY, loadTagSets().filter(t => t.id !== id));
+};
+
+// The parser's grammar as last edited; null until the user changes the default
+export const loadGrammar = (): GrammarSource | null => {
+  const grammar = readJSON<GrammarSource>(GRAMMAR_KEY);
+  return grammar && typeof grammar.rules === 'string' && typeof grammar.lexicon === 'string' ? grammar : null;
+};
+
+export const saveGrammar = (grammar: GrammarSource) => writeJSON(GRAMMAR_KEY, grammar);
+
+export const clearGrammar = () => {
+  try {
+    window.localStorage.removeItem(GRAMMAR_KEY);
+  } catch {
+    throw new StorageError('Browser storage is unavailable');
+  }
+};
+
+// The exercise set being worked on, with its answer keys brought up to the current schema
+export const loadExerciseSet = (): ExerciseSet | null => {
+  const stored = readJSON<ExerciseSet & { version: number }>(EXERCISES_KEY);
+  if (!stored || !Array.isArray(stored.exercises)) return null;
+  try {
+    return {
+      title: stored.title,
+      exercises: stored.exercises.map(e => ({ ...e, reference: migrateTree(e.reference, stored.version) })),
+    };
+  } catch (err) {
+    if (!(err instanceof StorageError)) throw err;
+    return null;
+  }
+};
+
+export const saveExerciseSet = (set: ExerciseSet) => writeJSON(EXERCISES_KEY, { version: SCHEMA_VERSION, ...set });
@@ -0,0 +1,105 @@
+import { EdgeType, TreeNodeType } from '@/types/tree';
+import { childEdgesOf, indexEdges, indexTree, parentEdgesOf } from '@/lib/treeIndex';
+
+const byX = (a: TreeNodeType, b: TreeNodeType) => a.x - b.x;
+
+// Children in left-to-right drawing order
+export const getOrderedChildren = (nodes: TreeNodeType[], edges: EdgeType[], id: number): TreeNodeType[] => {
+  const index = indexTree(nodes, edges);
+  return childEdgesOf(index, id)
+    .map(e => index.nodeById.get(e.to))
+    .filter((n): n is TreeNodeType => n !== undefined)
+    .sort(byX);
+};
+
+// Nodes without a parent, in left-to-right drawing order
+export const getRoots = (nodes: TreeNodeType[], edges: EdgeType[]): TreeNodeType[] => {
+  const { parentEdges } = indexEdges(edges);
+  return nodes.filter(n => !parentEdges.has(n.id)).sort(byX);
+};
+
+// Leaves dominated by `id`, left to right
+export const getYield = (nodes: TreeNodeType[], edges: EdgeType[], id: number): TreeNodeType[] => {
+  const visited = new Set<number>();
+  const collect = (node: TreeNodeType): TreeNodeType[] => {
+    if (visited.has(node.id)) return [];
+    visited.add(node.id);
+    return node.isLeaf ? [node] : getOrderedChildren(nodes, edges, node.id).flatMap(collect);
+  };
+  const start = indexTree(nodes, edges).nodeById.get(id);
+  return start ? collect(start) : [];
+};
+
+// First parent of `id`; a well-formed tree has at most one
+export const getParent = (nodes: TreeNodeType[], edges: EdgeType[], id: number): TreeNodeType | undefined => {
+  const index = indexTree(nodes, edges);
+  const edge = parentEdgesOf(index, id)[0];
+  return edge ? index.nodeById.get(edge.from) : undefined;
+};
+
+// Ids of `id` and every node below it; safe on graphs with cycles
+export const getSubtreeIds = (edges: EdgeType[], id: number): Set<number> => {
+  const index = indexEdges(edges);
+  const seen = new Set<number>();
+  const stack = [id];
+  while (stack.length) {
+    const current = stack.pop()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    childEdgesOf(index, current).forEach(e => stack.push(e.to));
+  }
+  return seen;
+};
+
+/**
+ * For each collapsed (triangle) node not itself under another roof, the overt
+ * words its roof spans, left to right.
+ */
+export const getRoofs = (nodes: TreeNodeType[], edges: EdgeType[]): Map<number, TreeNodeType[]> => {
+  const roofs = new Map<number, TreeNodeType[]>();
+  const covered = new Set<number>();
+  const depthFirst = (node: TreeNodeType, seen: Set<number>) => {
+    if (seen.has(node.id)) return;
+    seen.add(node.id);
+    if (node.collapsed && !node.isLeaf && !covered.has(node.id)) {
+      getSubtreeIds(edges, node.id).forEach(id => covered.add(id));
+      roofs.set(node.id, getYield(nodes, edges, node.id).filter(n => !n.empty));
+    }
+    getOrderedChildren(nodes, edges, node.id).forEach(child => depthFirst(child, seen));
+  };
+  const seen = new Set<number>();
+  getRoots(nodes, edges).forEach(root => depthFirst(root, seen));
+  // Nodes on a cycle have no root; a roof among them is still drawn
+  nodes.forEach(node => depthFirst(node, seen));
+  return roofs;
+};
+
+// Nodes a roof hides: everything below a collapsed node except the words it spans
+export const getHiddenIds = (nodes: TreeNodeType[], edges: EdgeType[]): Set<number> => {
+  const hidden = new Set<number>();
+  getRoofs(nodes, edges).forEach((words, id) => {
+    const shown = new Set(words.map(w => w.id));
+    getSubtreeIds(edges, id).forEach(below => {
+      if (below !== id && !shown.has(below)) hidden.add(below);
+    });
+  });
+  return hidden;
+};
+
+/**
+ * The structure as drawn: hidden nodes are left out, and each collapsed node
+ * links straight to the words under its roof.
+ */
+export const collapseStructure = (nodes: TreeNodeType[], edges: EdgeType[]): { nodes: TreeNodeType[]; edges: EdgeType[] } => {
+  const roofs = getRoofs(nodes, edges);
+  if (!roofs.size) return { nodes, edges };
+  const hidden = getHiddenIds(nodes, edges);
+  const roofed = new Set(Array.from(roofs.values()).flat().map(w => w.id));
+  return {
+    nodes: nodes.filter(n => !hidden.has(n.id)),
+    edges: [
+      ...edges.filter(e => !hidden.has(e.from) && !hidden.has(e.to) && !roofs.has(e.from) && !roofed.has(e.to)),
+      ...Array.from(roofs).flatMap(([id, words]) => words.map(word => ({ id: `${id}-${word.id}`, from: id, to: word.id }))),
+    ],
+  };
+};
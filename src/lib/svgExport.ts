@@ -0,0 +1,213 @@
+import { TextDirection, TreeState } from '@/types/tree';
+import { edgeEndpoints, edgePath, movementEndpoints, movementPath, quadraticBounds, roofPath, roofPoints } from '@/lib/geometry';
+import { getHiddenIds, getRoofs } from '@/lib/structure';
+import { indexTree } from '@/lib/treeIndex';
+import { featureRows } from '@/lib/features';
+import { detectDirection, mirrorTree } from '@/lib/direction';
+
+export interface SvgExportOptions {
+  fontFamily?: string;
+  fontSize?: number;
+  padding?: number;
+  // Draw each node's features and theta role as a matrix under its label
+  features?: boolean;
+  // Measures a label in pixels; defaults to an estimate so this also works outside the browser
+  measureText?: (text: string, fontSize: number) => number;
+  // Right to left draws the tree mirrored, with the first word on the right
+  direction?: TextDirection;
+}
+
+export interface RenderedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const DEFAULTS = {
+  fontFamily: 'Helvetica, Arial, sans-serif',
+  fontSize: 14,
+  padding: 16,
+};
+
+// POS tags sit under the word, where the editor shows its POS selector
+const POS_OFFSET = 20;
+
+const estimateTextWidth = (text: string, fontSize: number) => text.length * fontSize * 0.6;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Renders the tree as a standalone SVG document: plain `<text>` labels, edge
+ * curves, roofs and movement arrows only, with the view box cropped tightly around the drawing.
+ * Labels in a right-to-left script are marked as such, so mixed labels keep their word order.
+ */
+export const renderTreeSvg = (
+  tree: Pick<TreeState, 'nodes' | 'edges' | 'movements'>,
+  options: SvgExportOptions = {}
+): RenderedSvg => {
+  const { fontFamily, fontSize, padding } = { ...DEFAULTS, ...options };
+  // The view box is cropped to the drawing, so mirroring across x = 0 is as good as any other line
+  const { nodes: allNodes, edges, movements } = options.direction === 'rtl' ? mirrorTree(tree, 0) : tree;
+  // Collapsed phrases get a roof over their words instead of the structure they hide
+  const roofs = getRoofs(allNodes, edges);
+  const hidden = getHiddenIds(allNodes, edges);
+  const roofed = new Set(Array.from(roofs.values()).flat().map(w => w.id));
+  const nodes = allNodes.filter(n => !hidden.has(n.id));
+  const measure = options.measureText || estimateTextWidth;
+  const posFontSize = Math.round(fontSize * 0.85);
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const include = (x0: number, y0: number, x1: number, y1: number) => {
+    minX = Math.min(minX, x0);
+    minY = Math.min(minY, y0);
+    maxX = Math.max(maxX, x1);
+    maxY = Math.max(maxY, y1);
+  };
+
+  const { nodeById } = indexTree(nodes, edges);
+  const paths: string[] = [];
+  edges.forEach(edge => {
+    const from = nodeById.get(edge.from);
+    const to = nodeById.get(edge.to);
+    if (!from || !to || roofs.has(from.id)) return;
+    const { start, control, end } = edgeEndpoints(from, to, edge);
+    const bounds = quadraticBounds(start, control, end);
+    include(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY);
+    paths.push(`<path d="${edgePath(from, to, edge)}" />`);
+  });
+  roofs.forEach((words, id) => {
+    const node = nodeById.get(id);
+    if (!node || !words.length) return;
+    const { apex, left, right } = roofPoints(node, words);
+    include(left.x, apex.y, right.x, left.y);
+    paths.push(`<path d="${roofPath(node, words)}" />`);
+  });
+
+  const arrows: string[] = [];
+  movements.forEach(movement => {
+    const from = nodeById.get(movement.from);
+    const to = nodeById.get(movement.to);
+    if (!from || !to) return;
+    const { start, control, end } = movementEndpoints(from, to, movement);
+    const bounds = quadraticBounds(start, control, end);
+    include(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY);
+    arrows.push(`<path class="movement" d="${movementPath(from, to, movement)}" marker-end="url(#arrowhead)" />`);
+  });
+
+  const labels: string[] = [];
+  nodes.forEach(node => {
+    if (node.label) {
+      // Function tags and coindexation subscripts trail the label, as in NP-SBJ and who_i … t_i
+      const functions = node.functionTags?.length ? `-${node.functionTags.join('-')}` : '';
+      const width = measure(node.label, fontSize) + measure(functions, posFontSize) + (node.index ? measure(node.index, posFontSize) : 0);
+      include(node.x - width / 2, node.y - fontSize / 2, node.x + width / 2, node.y + fontSize / 2 + 4);
+      const suffix = functions ? `<tspan class="function">${escapeXml(functions)}</tspan>` : '';
+      const subscript = node.index ? `<tspan class="index" dy="4">${escapeXml(node.index)}</tspan>` : '';
+      const direction = detectDirection(node.label) === 'rtl' ? ' direction="rtl"' : '';
+      labels.push(`<text x="${round(node.x)}" y="${round(node.y)}"${direction}>${escapeXml(node.label)}${suffix}${subscript}</text>`);
+    }
+    if (node.isLeaf && node.pos && !roofed.has(node.id)) {
+      const y = node.y + POS_OFFSET;
+      const width = measure(node.pos, posFontSize);
+      include(node.x - width / 2, y - posFontSize / 2, node.x + width / 2, y + posFontSize / 2);
+      labels.push(`<text class="pos" x="${round(node.x)}" y="${round(y)}">${escapeXml(node.pos)}</text>`);
+    }
+    const rows = options.features ? featureRows(node) : [];
+    if (rows.length) {
+      const rowHeight = posFontSize + 2;
+      const top = node.y + (node.isLeaf && node.pos && !roofed.has(node.id) ? POS_OFFSET + posFontSize / 2 : fontSize / 2) + 4;
+      const width = Math.max(...rows.map(row => measure(row, posFontSize))) + 8;
+      const height = rows.length * rowHeight + 4;
+      const left = node.x - width / 2;
+      const right = node.x + width / 2;
+      include(left, top, right, top + height);
+      labels.push(`<path class="matrix" d="M ${round(left + 3)} ${round(top)} h -3 v ${round(height)} h 3 M ${round(right - 3)} ${round(top)} h 3 v ${round(height)} h -3" />`);
+      rows.forEach((row, i) => {
+        labels.push(`<text class="feature" x="${round(left + 4)}" y="${round(top + 2 + rowHeight * (i + 0.5))}">${escapeXml(row)}</text>`);
+      });
+    }
+  });
+
+  if (minX === Infinity) {
+    minX = minY = maxX = maxY = 0;
+  }
+
+  const x = round(minX - padding);
+  const y = round(minY - padding);
+  const width = Math.ceil(maxX - minX + padding * 2);
+  const height = Math.ceil(maxY - minY + padding * 2);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+    '<style>',
+    `text { font-family: ${fontFamily}; font-size: ${fontSize}px; text-anchor: middle; dominant-baseline: central; fill: #000; }`,
+    `text.pos { font-size: ${posFontSize}px; fill: #475569; }`,
+    `tspan.index { font-size: ${posFontSize}px; font-style: italic; }`,
+    `tspan.function { font-size: ${posFontSize}px; fill: #475569; }`,
+    `text.feature { font-size: ${posFontSize}px; text-anchor: start; }`,
+    'path { fill: none; stroke: #000; stroke-width: 1.5; }',
+    'path.movement { stroke-width: 1; }',
+    'path.matrix { stroke-width: 1; }',
+    '</style>',
+    '<defs><marker id="arrowhead" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#000" stroke="none" /></marker></defs>',
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#fff" />`,
+    ...paths,
+    ...arrows,
+    ...labels,
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+// Canvas-based text measurement for use in the browser
+export const createCanvasMeasure = (fontFamily = DEFAULTS.fontFamily) => {
+  const context = document.createElement('canvas').getContext('2d');
+  return (text: string, fontSize: number) => {
+    if (!context) return estimateTextWidth(text, fontSize);
+    context.font = `${fontSize}px ${fontFamily}`;
+    return context.measureText(text).width;
+  };
+};
+
+// Rasterizes a rendered SVG through an offscreen canvas at `scale`× its size
+export const svgToPng = (rendered: RenderedSvg, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([rendered.svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(rendered.width * scale);
+      canvas.height = Math.ceil(rendered.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported in this browser'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, rendered.width, rendered.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render SVG'));
+    };
+    image.src = url;
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,67 @@
+import { TagCategory, TagSet } from '@/types/tree';
+
+const xBar = (tag: string, phrase = `${tag}P`): TagCategory => ({ tag, projects: phrase, bar: `${tag}'` });
+
+export const TRADITIONAL_TAG_SET: TagSet = {
+  id: 'traditional',
+  name: 'Traditional phrase structure',
+  xBarSpine: false,
+  categories: [
+    { tag: 'N', projects: 'NP' },
+    { tag: 'V', projects: 'VP' },
+    { tag: 'A', projects: 'AP' },
+    { tag: 'P', projects: 'PP' },
+    { tag: 'Adv', projects: 'AdvP' },
+    { tag: 'aux' },
+    { tag: 'Det' },
+    { tag: 'PNP' },
+  ],
+};
+
+export const X_BAR_TAG_SET: TagSet = {
+  id: 'x-bar',
+  name: 'X-bar theory',
+  xBarSpine: true,
+  categories: [
+    xBar('N'),
+    xBar('V'),
+    xBar('A'),
+    xBar('P'),
+    xBar('Adv'),
+    xBar('D'),
+    xBar('T'),
+    xBar('C'),
+    xBar('Neg'),
+    xBar('Conj'),
+  ],
+};
+
+// Bare phrase structure has no bar levels: a projection carries its head's category
+export const BARE_PHRASE_STRUCTURE_TAG_SET: TagSet = {
+  id: 'bare-phrase-structure',
+  name: 'Minimalist bare phrase structure',
+  xBarSpine: false,
+  categories: ['N', 'V', 'v', 'A', 'P', 'Adv', 'D', 'T', 'C', 'Neg', 'Conj'].map(tag => ({ tag, projects: tag })),
+};
+
+export const TAG_SET_PRESETS: TagSet[] = [TRADITIONAL_TAG_SET, X_BAR_TAG_SET, BARE_PHRASE_STRUCTURE_TAG_SET];
+
+export const DEFAULT_TAG_SET = TRADITIONAL_TAG_SET;
+
+export const isPreset = (tagSet: TagSet) => TAG_SET_PRESETS.some(preset => preset.id === tagSet.id);
+
+export const findCategory = (tagSet: TagSet, pos: string | undefined): TagCategory | undefined =>
+  pos ? tagSet.categories.find(category => category.tag === pos) : undefined;
+
+// Labels from the head upwards that choosing `pos` creates, e.g. ["N'", 'NP']
+export const projectionLabels = (tagSet: TagSet, pos: string | undefined): string[] => {
+  const category = findCategory(tagSet, pos);
+  if (!category?.projects) return [];
+  return tagSet.xBarSpine && category.bar ? [category.bar, category.projects] : [category.projects];
+};
+
+// Tags offered in the leaf POS selector, keeping a leaf's current tag even if it is not in the set
+export const posOptions = (tagSet: TagSet, current?: string): string[] => {
+  const tags = tagSet.categories.map(category => category.tag);
+  return current && !tags.includes(current) ? [current, ...tags] : tags;
+};
@@ -0,0 +1,277 @@
+import { TreeNodeType, TreeState } from '@/types/tree';
+import { OperationError, deleteNode } from '@/lib/operations';
+import { getParent } from '@/lib/structure';
+
+type TokenState = Pick<TreeState, 'sentence' | 'nodes' | 'edges' | 'movements' | 'dependencies' | 'nextId' | 'selected'>;
+
+export type PunctuationMode = 'attach' | 'split' | 'drop';
+
+export interface TokenizeOptions {
+  // Keep punctuation on its word, make it a token of its own, or leave it out
+  punctuation: PunctuationMode;
+  // Split English contractions the Penn Treebank way: don't → do n't, dog's → dog 's
+  clitics: boolean;
+}
+
+export const DEFAULT_TOKENIZE_OPTIONS: TokenizeOptions = { punctuation: 'attach', clitics: false };
+
+export const PUNCTUATION_MODES: { value: PunctuationMode; label: string }[] = [
+  { value: 'attach', label: 'Punctuation stays on words' },
+  { value: 'split', label: 'Punctuation as tokens' },
+  { value: 'drop', label: 'Drop punctuation' },
+];
+
+export const EMPTY_CATEGORIES = ['PRO', 'pro', 'Ø', 'e'];
+
+// Single apostrophes are left alone so they can begin a clitic
+const PUNCTUATION = /^[.,;:!?"“”«»()[\]{}…—–-]+$/;
+const LEADING = /^[("“«[{]+/;
+const TRAILING = /[.,;:!?"”»)\]}…]+$/;
+const ABBREVIATION = /^([A-Za-z]\.){2,}$/;
+const CLITIC = /^(.+?)(n['’]t|['’](?:s|re|ve|ll|d|m))$/i;
+
+// Peels punctuation off both ends of a word; abbreviations such as U.S. keep their dots
+const splitPunctuation = (token: string): string[] => {
+  if (PUNCTUATION.test(token) || ABBREVIATION.test(token)) return [token];
+  const lead = token.match(LEADING)?.[0] || '';
+  const rest = token.slice(lead.length);
+  let trail = rest.match(TRAILING)?.[0] || '';
+  let word = rest.slice(0, rest.length - trail.length);
+  if (trail.startsWith('.') && ABBREVIATION.test(`${word}.`)) {
+    word += '.';
+    trail = trail.slice(1);
+  }
+  return [...lead.split(''), ...(word ? [word] : []), ...(trail ? (trail === '...' ? [trail] : trail.split('')) : [])];
+};
+
+const splitClitic = (token: string): string[] => {
+  const match = token.match(CLITIC);
+  return match ? [match[1], match[2]] : [token];
+};
+
+/** Splits a sentence into the words of its leaves. */
+export const tokenize = (sentence: string, options: TokenizeOptions = DEFAULT_TOKENIZE_OPTIONS): string[] => {
+  let tokens = sentence.trim().split(/\s+/).filter(Boolean);
+  if (options.punctuation !== 'attach') tokens = tokens.flatMap(splitPunctuation);
+  if (options.punctuation === 'drop') tokens = tokens.filter(token => !PUNCTUATION.test(token));
+  if (options.clitics) tokens = tokens.flatMap(splitClitic);
+  return tokens;
+};
+
+// Leaves in sentence order, which is their order in the node list
+const leavesOf = (nodes: TreeNodeType[]) => nodes.filter(n => n.isLeaf);
+
+// The sentence as the overt words currently read
+const withSentence = <T extends TokenState>(state: T): T => ({
+  ...state,
+  sentence: leavesOf(state.nodes).filter(n => !n.empty).map(n => n.label).join(' '),
+});
+
+const findLeaf = (nodes: TreeNodeType[], id: number) => {
+  const node = nodes.find(n => n.id === id);
+  if (!node) throw new OperationError(`Node ${id} does not exist`);
+  if (!node.isLeaf) throw new OperationError(`"${node.label || id}" is a phrase, not a word`);
+  return node;
+};
+
+const newLeaf = (id: number, label: string, x: number, y: number): TreeNodeType => ({
+  id,
+  label,
+  pos: '',
+  x,
+  y,
+  isLeaf: true,
+  projectedParent: null,
+});
+
+// Adds leaves right after `afterId` in the sentence (at the start for null), under its parent
+const insertLeaves = <T extends TokenState>(state: T, afterId: number | null, leaves: TreeNodeType[]): T => {
+  const leafIds = leavesOf(state.nodes).map(n => n.id);
+  const anchor = afterId === null ? leafIds[0] : afterId;
+  const index = anchor === undefined ? state.nodes.length : state.nodes.findIndex(n => n.id === anchor) + (afterId === null ? 0 : 1);
+  const parent = anchor === undefined ? undefined : getParent(state.nodes, state.edges, anchor);
+  return {
+    ...state,
+    nodes: [...state.nodes.slice(0, index), ...leaves, ...state.nodes.slice(index)],
+    edges: parent
+      ? [...state.edges, ...leaves.map(leaf => ({ id: `${parent.id}-${leaf.id}`, from: parent.id, to: leaf.id }))]
+      : state.edges,
+    nextId: Math.max(state.nextId, ...leaves.map(leaf => leaf.id + 1)),
+  };
+};
+
+// Spreads `count` new leaves between a word and the next one, or past the last word
+const positionsAfter = (nodes: TreeNodeType[], afterId: number | null, count: number) => {
+  const leaves = leavesOf(nodes);
+  const index = afterId === null ? -1 : leaves.findIndex(n => n.id === afterId);
+  const left = leaves[index];
+  const right = leaves[index + 1];
+  const y = (left || right)?.y ?? 0;
+  const start = left ? left.x : right ? right.x - 60 * (count + 1) : 0;
+  const step = left && right ? (right.x - left.x) / (count + 1) : 60;
+  return Array.from({ length: count }, (_, i) => ({ x: start + step * (i + 1), y }));
+};
+
+/**
+ * Splits a word into several leaves: `parts` default to the words of its label,
+ * so a leaf relabeled "do n't" becomes "do" and "n't". The first part keeps the
+ * node, with its part of speech and everything attached to it; the others are
+ * new words under the same parent.
+ */
+export const splitLeaf = <T extends TokenState>(state: T, id: number, parts?: string[]): T => {
+  const leaf = findLeaf(state.nodes, id);
+  const words = (parts || leaf.label.trim().split(/\s+/)).filter(Boolean);
+  if (words.length < 2) {
+    throw new OperationError(`Type a space where "${leaf.label}" should be split`);
+  }
+  const relabeled = { ...state, nodes: state.nodes.map(n => (n.id === id ? { ...n, label: words[0] } : n)) };
+  const positions = positionsAfter(relabeled.nodes, id, words.length - 1);
+  const added = words.slice(1).map((word, i) =>
+    ({ ...newLeaf(state.nextId + i, word, positions[i].x, positions[i].y), ...(leaf.empty ? { empty: true } : {}) }));
+  return withSentence(insertLeaves(relabeled, id, added));
+};
+
+/**
+ * Merges neighbouring words into one multi-word leaf, such as "New York". The
+ * leftmost word keeps its node and place in the tree; the others are removed.
+ */
+export const mergeLeaves = <T extends TokenState>(state: T, ids: number[]): T => {
+  if (ids.length < 2) throw new OperationError('Select at least 2 neighbouring words to merge');
+  ids.forEach(id => findLeaf(state.nodes, id));
+  const leaves = leavesOf(state.nodes);
+  const positions = ids.map(id => leaves.findIndex(n => n.id === id)).sort((a, b) => a - b);
+  if (positions.some((position, i) => i > 0 && position !== positions[i - 1] + 1)) {
+    throw new OperationError('Only neighbouring words can be merged');
+  }
+  const merged = positions.map(i => leaves[i]);
+  const [first, ...rest] = merged;
+  let next: T = {
+    ...state,
+    nodes: state.nodes.map(n => (n.id === first.id ? { ...n, label: merged.map(w => w.label).join(' ') } : n)),
+  };
+  rest.forEach(word => {
+    next = deleteNode(next, word.id);
+  });
+  return withSentence({ ...next, selected: [first.id] });
+};
+
+// Adds a word after `afterId`, or at the start of the sentence for null
+export const insertWord = <T extends TokenState>(state: T, afterId: number | null, label = 'word'): T => {
+  if (afterId !== null) findLeaf(state.nodes, afterId);
+  const [position] = positionsAfter(state.nodes, afterId, 1);
+  const leaf = newLeaf(state.nextId, label, position.x, position.y);
+  return withSentence({ ...insertLeaves(state, afterId, [leaf]), selected: [leaf.id] });
+};
+
+// Removes a word; the phrases above it stay
+export const deleteWord = <T extends TokenState>(state: T, id: number): T => {
+  findLeaf(state.nodes, id);
+  return withSentence(deleteNode(state, id));
+};
+
+/**
+ * Inserts an unpronounced leaf such as PRO or Ø after `afterId`. Like a trace,
+ * it is part of the tree but not of the sentence.
+ */
+export const insertEmptyCategory = <T extends TokenState>(state: T, afterId: number | null, label: string): T => {
+  const inserted = insertWord(state, afterId, label);
+  return withSentence({ ...inserted, nodes: inserted.nodes.map(n => (n.id === state.nextId ? { ...n, empty: true } : n)) });
+};
+
+// Marks a word as an empty category, or as an overt word again
+export const toggleEmpty = <T extends TokenState>(state: T, id: number): T => {
+  const leaf = findLeaf(state.nodes, id);
+  return withSentence({
+    ...state,
+    nodes: state.nodes.map(n => {
+      if (n.id !== id) return n;
+      const next: TreeNodeType = { ...n, empty: true };
+      if (leaf.empty) delete next.empty;
+      return next;
+    }),
+  });
+};
+
+type DiffStep = { kind: 'keep' | 'remove'; leaf: TreeNodeType } | { kind: 'add'; word: string };
+
+// Longest common subsequence of the current words and the new tokens
+const diffWords = (leaves: TreeNodeType[], tokens: string[]): DiffStep[] => {
+  const table = Array.from({ length: leaves.length + 1 }, () => new Array<number>(tokens.length + 1).fill(0));
+  for (let i = leaves.length - 1; i >= 0; i--) {
+    for (let j = tokens.length - 1; j >= 0; j--) {
+      table[i][j] = leaves[i].label === tokens[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const steps: DiffStep[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < leaves.length || j < tokens.length) {
+    if (i < leaves.length && j < tokens.length && leaves[i].label === tokens[j]) {
+      steps.push({ kind: 'keep', leaf: leaves[i++] });
+      j++;
+    } else if (j < tokens.length && (i === leaves.length || table[i][j + 1] >= table[i + 1][j])) {
+      steps.push({ kind: 'add', word: tokens[j++] });
+    } else {
+      steps.push({ kind: 'remove', leaf: leaves[i++] });
+    }
+  }
+  return steps;
+};
+
+/**
+ * Brings the leaves in line with an edited sentence without rebuilding the
+ * tree. Unchanged words keep their nodes and structure. Where words were
+ * replaced, as when fixing a typo or splitting "don't" into "do n't", the old
+ * leaves are relabeled in place and any extra words join the same parent; words
+ * that are gone are removed. Empty categories are not part of the sentence and
+ * stay where they are.
+ */
+export const retokenize = <T extends TokenState>(
+  state: T,
+  sentence: string,
+  options: TokenizeOptions = DEFAULT_TOKENIZE_OPTIONS
+): T => {
+  const tokens = tokenize(sentence, options);
+  if (!tokens.length) throw new OperationError('Please enter a sentence first');
+  const words = leavesOf(state.nodes).filter(n => !n.empty);
+  const steps = diffWords(words, tokens);
+
+  let next: T = state;
+  let previous: number | null = null;  // Last overt word placed so far
+  let removed: TreeNodeType[] = [];
+  let added: string[] = [];
+
+  // A run of removals and additions between two kept words is one replacement
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    removed.slice(0, paired).forEach((leaf, k) => {
+      next = { ...next, nodes: next.nodes.map(n => (n.id === leaf.id ? { ...n, label: added[k] } : n)) };
+      previous = leaf.id;
+    });
+    removed.slice(paired).forEach(leaf => {
+      next = deleteNode(next, leaf.id);
+    });
+    if (added.length > paired) {
+      const extra = added.slice(paired);
+      const positions = positionsAfter(next.nodes, previous, extra.length);
+      const leaves = extra.map((word, k) => newLeaf(next.nextId + k, word, positions[k].x, positions[k].y));
+      next = insertLeaves(next, previous, leaves);
+      previous = leaves[leaves.length - 1].id;
+    }
+    removed = [];
+    added = [];
+  };
+
+  steps.forEach(step => {
+    if (step.kind === 'remove') removed.push(step.leaf);
+    else if (step.kind === 'add') added.push(step.word);
+    else {
+      flush();
+      previous = step.leaf.id;
+    }
+  });
+  flush();
+  return { ...next, sentence };
+};
@@ -0,0 +1,54 @@
+import { TagSet, TreeModel, TreeNodeType, TreeState } from '@/types/tree';
+import { DEFAULT_TAG_SET } from '@/lib/tagset';
+import { DEFAULT_TOKENIZE_OPTIONS, TokenizeOptions, tokenize } from '@/lib/tokens';
+
+// Distance between words when a sentence is first laid out
+const WORD_SPACING = 90;
+
+// The editor state before any sentence is entered
+export const createEmptyTree = (tagSet: TagSet = DEFAULT_TAG_SET): TreeState => ({
+  sentence: '',
+  tagSet,
+  nodes: [],
+  edges: [],
+  movements: [],
+  dependencies: [],
+  nextId: 1,
+  selected: [],
+  error: '',
+  linking: null,
+});
+
+/**
+ * A sentence's words on a row along the bottom of the canvas, spread at least
+ * WORD_SPACING apart, under an unattached S.
+ */
+export const createTree = (
+  sentence: string,
+  dimensions: { width: number; height: number },
+  options: TokenizeOptions = DEFAULT_TOKENIZE_OPTIONS
+): Omit<TreeModel, 'tagSet'> => {
+  const words = tokenize(sentence, options);
+  const spacing = Math.max(WORD_SPACING, dimensions.width / (words.length + 1));
+
+  const nodes: TreeNodeType[] = [
+    ...words.map((word, i) => ({
+      id: i + 1,
+      label: word,
+      pos: '',
+      x: spacing * (i + 1),
+      y: dimensions.height * 0.875,
+      isLeaf: true,
+      projectedParent: null,
+    })),
+    {
+      id: words.length + 1,
+      label: 'S',
+      x: (spacing * (words.length + 1)) / 2,
+      y: dimensions.height * 0.125,
+      isLeaf: false,
+    },
+  ];
+
+  return { sentence, nodes, edges: [], movements: [], dependencies: [], nextId: words.length + 2 };
+};
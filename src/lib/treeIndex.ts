@@ -0,0 +1,68 @@
+import { EdgeType, TreeNodeType } from '@/types/tree';
+
+/**
+ * The tree normalized for lookups by id: nodes and edges by id, and the edges
+ * into and out of each node. Everything that walks the structure goes through
+ * this index instead of scanning the arrays.
+ *
+ * The state itself stays as plain arrays rather than being normalized into
+ * maps. The arrays are what is saved, exported, shared in permalinks and
+ * diffed for collaboration, and every operation and undo entry works on them;
+ * deriving the maps keeps one representation instead of converting at each
+ * of those boundaries, and costs nothing while the arrays are unchanged.
+ *
+ * Indexes are cached per array, so building one for the same `nodes` and
+ * `edges` again is free. This relies on the arrays never being mutated, which
+ * every edit in this codebase already guarantees by returning new arrays.
+ */
+export interface EdgeIndex {
+  // The first edge with each id; later ones reuse an id and are reported by the validator
+  edgeById: Map<string, EdgeType>;
+  // Edges out of each node and into each node, in `edges` order
+  childEdges: Map<number, EdgeType[]>;
+  parentEdges: Map<number, EdgeType[]>;
+}
+
+export interface TreeIndex extends EdgeIndex {
+  nodeById: Map<number, TreeNodeType>;
+}
+
+const NO_EDGES: EdgeType[] = [];
+
+const edgeCache = new WeakMap<EdgeType[], EdgeIndex>();
+const treeCache = new WeakMap<TreeNodeType[], WeakMap<EdgeType[], TreeIndex>>();
+
+export const indexEdges = (edges: EdgeType[]): EdgeIndex => {
+  const cached = edgeCache.get(edges);
+  if (cached) return cached;
+  const edgeById = new Map<string, EdgeType>();
+  const childEdges = new Map<number, EdgeType[]>();
+  const parentEdges = new Map<number, EdgeType[]>();
+  edges.forEach(edge => {
+    if (!edgeById.has(edge.id)) edgeById.set(edge.id, edge);
+    const out = childEdges.get(edge.from);
+    if (out) out.push(edge); else childEdges.set(edge.from, [edge]);
+    const into = parentEdges.get(edge.to);
+    if (into) into.push(edge); else parentEdges.set(edge.to, [edge]);
+  });
+  const index = { edgeById, childEdges, parentEdges };
+  edgeCache.set(edges, index);
+  return index;
+};
+
+export const indexTree = (nodes: TreeNodeType[], edges: EdgeType[]): TreeIndex => {
+  let byEdges = treeCache.get(nodes);
+  if (!byEdges) {
+    byEdges = new WeakMap();
+    treeCache.set(nodes, byEdges);
+  }
+  const cached = byEdges.get(edges);
+  if (cached) return cached;
+  const index = { ...indexEdges(edges), nodeById: new Map(nodes.map(n => [n.id, n])) };
+  byEdges.set(edges, index);
+  return index;
+};
+
+export const childEdgesOf = (index: EdgeIndex, id: number) => index.childEdges.get(id) || NO_EDGES;
+
+export const parentEdgesOf = (index: EdgeIndex, id: number) => index.parentEdges.get(id) || NO_EDGES;
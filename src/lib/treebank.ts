@@ -0,0 +1,198 @@
+import { MovementType, TagSet } from '@/types/tree';
+import { BracketItem, ParsedTree, buildTree } from '@/lib/bracket';
+import { tagForUpos } from '@/lib/conllu';
+import { nextCoindex, traceMovements } from '@/lib/movement';
+import { findCategory } from '@/lib/tagset';
+
+export class TreebankParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'TreebankParseError';
+    this.position = position;
+  }
+}
+
+export interface TreebankOptions {
+  emptyElements: boolean;  // Keep -NONE- traces and null elements as empty categories
+  punctuation: boolean;
+}
+
+export const DEFAULT_TREEBANK_OPTIONS: TreebankOptions = { emptyElements: true, punctuation: false };
+
+// Penn Treebank POS tags as Universal POS tags, which the tag sets are matched against
+const PTB_UPOS: Record<string, string> = {
+  NN: 'NOUN', NNS: 'NOUN', NNP: 'PROPN', NNPS: 'PROPN',
+  PRP: 'PRON', PRP$: 'PRON', WP: 'PRON', WP$: 'PRON', EX: 'PRON',
+  VB: 'VERB', VBD: 'VERB', VBG: 'VERB', VBN: 'VERB', VBP: 'VERB', VBZ: 'VERB',
+  MD: 'AUX',
+  JJ: 'ADJ', JJR: 'ADJ', JJS: 'ADJ',
+  RB: 'ADV', RBR: 'ADV', RBS: 'ADV', WRB: 'ADV',
+  IN: 'ADP', TO: 'ADP', RP: 'ADP',
+  DT: 'DET', PDT: 'DET', WDT: 'DET',
+  CC: 'CCONJ',
+};
+
+// Phrases named after the category heading them; others (S, SBAR, WHNP, …) keep their label
+const PTB_PHRASES: Record<string, string> = { NP: 'NOUN', VP: 'VERB', ADJP: 'ADJ', ADVP: 'ADV', PP: 'ADP' };
+
+const PUNCTUATION_TAGS = new Set([',', '.', ':', '``', "''", '-LRB-', '-RRB-', '#', 'HYPH', 'NFP']);
+
+// Escaped brackets in treebank words
+const PTB_WORDS: Record<string, string> = { '-LRB-': '(', '-RRB-': ')', '-LCB-': '{', '-RCB-': '}', '-LSB-': '[', '-RSB-': ']' };
+
+// Empty elements as the editor writes them: *T* traces of A'-movement, * for PRO, 0 for null complementizers and operators
+const EMPTY_LABELS: Record<string, string> = { '*T*': 't', '*': 'PRO', '0': 'Ø', '*U*': 'Ø', '*?*': 'Ø' };
+
+interface Token {
+  type: 'open' | 'close' | 'word';
+  value: string;
+  position: number;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\(|\)|[^\s()]+/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const type = match[0] === '(' ? 'open' : match[0] === ')' ? 'close' : 'word';
+    tokens.push({ type, value: match[0], position: match.index });
+  }
+  return tokens;
+};
+
+/**
+ * Parses Penn Treebank s-expressions such as `( (S (NP-SBJ (NNP John)) (VP (VBD slept)) (. .)) )`,
+ * one tree per top-level bracket. The unlabeled, ROOT or TOP bracket wrapping each tree is dropped.
+ */
+export const parsePennTreebank = (text: string): BracketItem[] => {
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const parseBracket = (): BracketItem => {
+    const open = tokens[index++];
+    const labelToken = tokens[index];
+    const label = labelToken?.type === 'word' ? labelToken.value : '';
+    if (label) index++;
+
+    const children: BracketItem[] = [];
+    while (index < tokens.length && tokens[index].type !== 'close') {
+      const token = tokens[index];
+      if (token.type === 'open') {
+        children.push(parseBracket());
+      } else {
+        children.push({ label: token.value, position: token.position, children: null });
+        index++;
+      }
+    }
+    if (index >= tokens.length) {
+      throw new TreebankParseError(`Unclosed '(' opened at position ${open.position}: expected ')'`, text.length);
+    }
+    index++;
+    if (!children.length) throw new TreebankParseError('Empty brackets', open.position);
+    return { label, position: open.position, children };
+  };
+
+  const trees: BracketItem[] = [];
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (token.type !== 'open') {
+      throw new TreebankParseError(token.type === 'close' ? "Unexpected ')'" : `Unexpected word "${token.value}" outside a tree`, token.position);
+    }
+    let tree = parseBracket();
+    while (['', 'ROOT', 'TOP'].includes(tree.label) && tree.children?.length === 1 && tree.children[0].children) {
+      tree = tree.children[0];
+    }
+    trees.push(tree);
+  }
+  return trees;
+};
+
+const isPreterminal = (item: BracketItem) =>
+  item.children !== null && item.children.length === 1 && item.children[0].children === null;
+
+// The pronounced words of a treebank tree, skipping empty elements
+export const treebankWords = (item: BracketItem): string[] => {
+  if (!item.children) return [item.label];
+  if (isPreterminal(item)) return item.label === '-NONE-' ? [] : [PTB_WORDS[item.children[0].label] ?? item.children[0].label];
+  return item.children.flatMap(treebankWords);
+};
+
+// NP-SBJ-1=2 is an NP with function tag SBJ, coindexed 1 and gapping index 2 (dropped)
+const splitLabel = (label: string) => {
+  if (label.startsWith('-')) return { base: label, functionTags: [], index: undefined };
+  const [base, ...suffixes] = label.split('=')[0].split('-');
+  return {
+    base,
+    functionTags: suffixes.filter(s => s && !/^\d+$/.test(s)),
+    index: suffixes.find(s => /^\d+$/.test(s)),
+  };
+};
+
+/**
+ * Builds the editor's tree for one treebank tree. POS tags and the phrases
+ * they head are renamed to the tag set's; function tags are kept on the node,
+ * numeric indices become coindices, and each *T* trace gets a movement arrow
+ * to the phrase carrying its index.
+ */
+export const treebankToTree = (
+  tree: BracketItem,
+  dimensions: { width: number; height: number },
+  tagSet: TagSet,
+  options: TreebankOptions = DEFAULT_TREEBANK_OPTIONS
+): ParsedTree & { movements: MovementType[] } => {
+  // Treebank indices are numbers; the editor writes i, j, k, …
+  const coindices = new Map<string, string>();
+  const coindex = (number: string | undefined) => {
+    if (!number || !options.emptyElements) return undefined;
+    if (!coindices.has(number)) {
+      coindices.set(number, nextCoindex([...coindices.values()].map(index => ({ index }))));
+    }
+    return coindices.get(number);
+  };
+
+  const mapTag = (tag: string) => tagForUpos(PTB_UPOS[tag] || '', tagSet) ?? tag;
+
+  const convert = (item: BracketItem): BracketItem | null => {
+    if (!item.children) return item;
+
+    if (isPreterminal(item)) {
+      const word = item.children[0];
+      if (item.label === '-NONE-') {
+        if (!options.emptyElements) return null;
+        const [, symbol, number] = /^(.*?)(?:-(\d+))?$/.exec(word.label)!;
+        return {
+          label: '',
+          position: item.position,
+          children: [{ ...word, label: EMPTY_LABELS[symbol] ?? symbol }],
+          attributes: { empty: true, index: coindex(number) },
+        };
+      }
+      if (!options.punctuation && PUNCTUATION_TAGS.has(item.label)) return null;
+      return {
+        label: mapTag(splitLabel(item.label).base),
+        position: item.position,
+        children: [{ ...word, label: PTB_WORDS[word.label] ?? word.label }],
+      };
+    }
+
+    const children = item.children.map(convert).filter((child): child is BracketItem => child !== null);
+    if (!children.length) return null;
+    const { base, functionTags, index } = splitLabel(item.label);
+    const headed = PTB_PHRASES[base] ? findCategory(tagSet, tagForUpos(PTB_PHRASES[base], tagSet)) : undefined;
+    return {
+      label: headed?.projects ?? base,
+      position: item.position,
+      children,
+      attributes: {
+        ...(functionTags.length ? { functionTags } : {}),
+        ...(index ? { index: coindex(index) } : {}),
+      },
+    };
+  };
+
+  const converted = convert(tree);
+  const parsed = buildTree(converted ? [converted] : [], dimensions, tagSet);
+
+  return { ...parsed, movements: traceMovements(parsed.nodes) };
+};
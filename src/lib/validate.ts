@@ -0,0 +1,204 @@
+import { EdgeType, TreeNodeType } from '@/types/tree';
+import { formatFeature } from '@/lib/features';
+import { getRoofs } from '@/lib/structure';
+
+export type IssueType =
+  | 'self-link'
+  | 'duplicate-edge'
+  | 'dangling-edge'
+  | 'multiple-parents'
+  | 'cycle'
+  | 'leaf-has-children'
+  | 'leaf-without-pos'
+  | 'missing-root'
+  | 'unreachable'
+  | 'crossing-branches'
+  | 'feature-clash';
+
+export interface TreeIssue {
+  type: IssueType;
+  message: string;
+  nodeIds: number[];
+  edgeIds: string[];
+}
+
+const describe = (node: TreeNodeType | undefined) => (node ? `"${node.label || node.id}"` : 'a missing node');
+
+/**
+ * Checks the dominance graph for everything that keeps it from being a
+ * well-formed tree. Returns an empty list for a well-formed tree.
+ */
+export const validateTree = (nodes: TreeNodeType[], edges: EdgeType[]): TreeIssue[] => {
+  const issues: TreeIssue[] = [];
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const label = (id: number) => describe(nodeById.get(id));
+
+  // Edge-level problems; only sound edges take part in the structural checks below
+  const seenIds = new Set<string>();
+  const seenPairs = new Set<string>();
+  const sound: EdgeType[] = [];
+  edges.forEach(edge => {
+    if (!nodeById.has(edge.from) || !nodeById.has(edge.to)) {
+      issues.push({ type: 'dangling-edge', message: `Edge ${edge.id} points to a node that no longer exists`, nodeIds: [], edgeIds: [edge.id] });
+      return;
+    }
+    if (edge.from === edge.to) {
+      issues.push({ type: 'self-link', message: `${label(edge.from)} is linked to itself`, nodeIds: [edge.from], edgeIds: [edge.id] });
+      return;
+    }
+    const pair = `${edge.from}>${edge.to}`;
+    if (seenIds.has(edge.id) || seenPairs.has(pair)) {
+      issues.push({
+        type: 'duplicate-edge',
+        message: seenPairs.has(pair)
+          ? `${label(edge.from)} is linked to ${label(edge.to)} more than once`
+          : `Edge id ${edge.id} is used by more than one edge`,
+        nodeIds: [edge.from, edge.to],
+        edgeIds: [edge.id],
+      });
+      return;
+    }
+    seenIds.add(edge.id);
+    seenPairs.add(pair);
+    sound.push(edge);
+  });
+
+  const children = new Map<number, number[]>();
+  const parentEdges = new Map<number, EdgeType[]>();
+  sound.forEach(edge => {
+    children.set(edge.from, [...(children.get(edge.from) || []), edge.to]);
+    parentEdges.set(edge.to, [...(parentEdges.get(edge.to) || []), edge]);
+  });
+
+  parentEdges.forEach((incoming, id) => {
+    if (incoming.length > 1) {
+      issues.push({
+        type: 'multiple-parents',
+        message: `${label(id)} has ${incoming.length} parents: ${incoming.map(e => label(e.from)).join(', ')}`,
+        nodeIds: [id],
+        edgeIds: incoming.map(e => e.id),
+      });
+    }
+  });
+
+  // Words under a triangle are shown without their part of speech
+  const roofed = new Set(Array.from(getRoofs(nodes, sound).values()).flat().map(w => w.id));
+  nodes.forEach(node => {
+    if (!node.isLeaf) return;
+    if (children.has(node.id)) {
+      issues.push({
+        type: 'leaf-has-children',
+        message: `Word ${label(node.id)} dominates other nodes`,
+        nodeIds: [node.id],
+        edgeIds: sound.filter(e => e.from === node.id).map(e => e.id),
+      });
+    }
+    if (!node.pos && !node.empty && !roofed.has(node.id)) {
+      issues.push({ type: 'leaf-without-pos', message: `Word ${label(node.id)} has no part of speech`, nodeIds: [node.id], edgeIds: [] });
+    }
+  });
+
+  // Cycles: depth-first search, reporting each back edge's loop once
+  const state = new Map<number, 'visiting' | 'done'>();
+  const path: number[] = [];
+  const visit = (id: number) => {
+    state.set(id, 'visiting');
+    path.push(id);
+    (children.get(id) || []).forEach(child => {
+      if (state.get(child) === 'visiting') {
+        const loop = path.slice(path.indexOf(child));
+        issues.push({
+          type: 'cycle',
+          message: `Cycle through ${loop.map(label).join(' → ')}`,
+          nodeIds: loop,
+          edgeIds: sound.filter(e => loop.includes(e.from) && loop.includes(e.to)).map(e => e.id),
+        });
+      } else if (!state.has(child)) {
+        visit(child);
+      }
+    });
+    path.pop();
+    state.set(id, 'done');
+  };
+  nodes.forEach(node => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+
+  // Reachability from the root: the parentless S, or else the parentless node spanning the most
+  const descendants = (id: number) => {
+    const seen = new Set<number>();
+    const stack = [id];
+    while (stack.length) {
+      const current = stack.pop()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      stack.push(...(children.get(current) || []));
+    }
+    return seen;
+  };
+
+  const roots = nodes.filter(n => !parentEdges.has(n.id));
+  if (nodes.length && !roots.length) {
+    issues.push({ type: 'missing-root', message: 'The tree has no root node', nodeIds: [], edgeIds: [] });
+  } else if (roots.length) {
+    const spans = roots.map(root => ({ root, reach: descendants(root.id) }));
+    const main = spans.find(s => s.root.label === 'S') || spans.reduce((a, b) => (b.reach.size > a.reach.size ? b : a));
+    const unreachable = nodes.filter(n => !main.reach.has(n.id));
+    if (unreachable.length) {
+      issues.push({
+        type: 'unreachable',
+        message: `${unreachable.length === 1 ? '1 node is' : `${unreachable.length} nodes are`} not connected to ${label(main.root.id)}: ${unreachable.map(n => label(n.id)).join(', ')}`,
+        nodeIds: unreachable.map(n => n.id),
+        edgeIds: [],
+      });
+    }
+  }
+
+  // Crossing branches: a constituent whose words are not contiguous in the sentence
+  const leafOrder = new Map(
+    nodes.filter(n => n.isLeaf).sort((a, b) => a.x - b.x).map((n, i) => [n.id, i])
+  );
+  nodes.forEach(node => {
+    if (node.isLeaf || !children.has(node.id)) return;
+    const positions = Array.from(descendants(node.id))
+      .map(id => leafOrder.get(id))
+      .filter((i): i is number => i !== undefined);
+    if (positions.length < 2) return;
+    const span = Math.max(...positions) - Math.min(...positions) + 1;
+    if (span !== positions.length) {
+      issues.push({
+        type: 'crossing-branches',
+        message: `The words under ${label(node.id)} are not contiguous, so its branches cross`,
+        nodeIds: [node.id],
+        edgeIds: sound.filter(e => e.from === node.id).map(e => e.id),
+      });
+    }
+  });
+
+  // Feature clashes: a head and the nodes it projects to must agree on the features both carry
+  const parentOf = (id: number) => parentEdges.get(id)?.[0]?.from;
+  nodes.forEach(head => {
+    if (!head.isLeaf || head.projectedParent == null || !head.features) return;
+    const spine: number[] = [];
+    for (let id = parentOf(head.id); id !== undefined && !spine.includes(id); id = parentOf(id)) {
+      spine.push(id);
+      if (id === head.projectedParent) break;
+    }
+    if (spine[spine.length - 1] !== head.projectedParent) return;
+    spine.forEach(id => {
+      const projection = nodeById.get(id)!;
+      Object.entries(head.features || {}).forEach(([name, value]) => {
+        const other = projection.features?.[name];
+        if (other === undefined || other === value) return;
+        issues.push({
+          type: 'feature-clash',
+          message: `${label(head.id)} has [${formatFeature(name, value)}] but its projection ${label(id)} has [${formatFeature(name, other)}]`,
+          nodeIds: [head.id, id],
+          edgeIds: [],
+        });
+      });
+    });
+  });
+
+  return issues;
+};
@@ -0,0 +1,105 @@
+import { TreeNodeType } from '@/types/tree';
+
+/**
+ * Pan and zoom of the canvas: a tree point (x, y) is drawn at
+ * (x * scale + panX, y * scale + panY) on screen. Node positions are always in
+ * tree coordinates and never depend on the view.
+ */
+export interface Viewport {
+  panX: number;
+  panY: number;
+  scale: number;
+}
+
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 4;
+// Fitting never enlarges a small tree past its natural size by more than this
+const MAX_FIT_SCALE = 1.5;
+// Room kept around the nodes: labels are wider than a point, and words carry a POS below them
+const NODE_MARGIN = { x: 60, top: 30, bottom: 50 };
+
+export const IDENTITY_VIEW: Viewport = { panX: 0, panY: 0, scale: 1 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export const screenToTree = (view: Viewport, point: { x: number; y: number }) => ({
+  x: (point.x - view.panX) / view.scale,
+  y: (point.y - view.panY) / view.scale,
+});
+
+export const treeToScreen = (view: Viewport, point: { x: number; y: number }) => ({
+  x: point.x * view.scale + view.panX,
+  y: point.y * view.scale + view.panY,
+});
+
+// Zooms by `factor` while keeping the tree point under `anchor` (a screen point) in place
+export const zoomAt = (view: Viewport, factor: number, anchor: { x: number; y: number }): Viewport => {
+  const scale = clampScale(view.scale * factor);
+  const fixed = screenToTree(view, anchor);
+  return { scale, panX: anchor.x - fixed.x * scale, panY: anchor.y - fixed.y * scale };
+};
+
+// Area the nodes cover, with room for their labels; null for an empty tree
+export const treeBounds = (nodes: TreeNodeType[]): Bounds | null => {
+  if (!nodes.length) return null;
+  return {
+    left: Math.min(...nodes.map(n => n.x)) - NODE_MARGIN.x,
+    top: Math.min(...nodes.map(n => n.y)) - NODE_MARGIN.top,
+    right: Math.max(...nodes.map(n => n.x)) + NODE_MARGIN.x,
+    bottom: Math.max(...nodes.map(n => n.y)) + NODE_MARGIN.bottom,
+  };
+};
+
+// The view that shows all of `bounds` centered in a canvas of the given size
+export const fitView = (bounds: Bounds | null, size: { width: number; height: number }): Viewport => {
+  if (!bounds) return IDENTITY_VIEW;
+  const width = Math.max(1, bounds.right - bounds.left);
+  const height = Math.max(1, bounds.bottom - bounds.top);
+  const scale = clampScale(Math.min(MAX_FIT_SCALE, size.width / width, size.height / height));
+  return {
+    scale,
+    panX: size.width / 2 - ((bounds.left + bounds.right) / 2) * scale,
+    panY: size.height / 2 - ((bounds.top + bounds.bottom) / 2) * scale,
+  };
+};
+
+// The part of the tree plane the canvas currently shows
+export const visibleBounds = (view: Viewport, size: { width: number; height: number }): Bounds => {
+  const topLeft = screenToTree(view, { x: 0, y: 0 });
+  const bottomRight = screenToTree(view, { x: size.width, y: size.height });
+  return { left: topLeft.x, top: topLeft.y, right: bottomRight.x, bottom: bottomRight.y };
+};
+
+// Moves the view just enough to bring a tree point into sight, keeping the zoom
+export const revealPoint = (
+  view: Viewport,
+  size: { width: number; height: number },
+  point: { x: number; y: number }
+): Viewport => {
+  const visible = visibleBounds(view, size);
+  const margin = NODE_MARGIN.x / view.scale;
+  const dx = point.x < visible.left + margin ? point.x - visible.left - margin
+    : point.x > visible.right - margin ? point.x - visible.right + margin : 0;
+  const dy = point.y < visible.top + margin ? point.y - visible.top - margin
+    : point.y > visible.bottom - margin ? point.y - visible.bottom + margin : 0;
+  if (!dx && !dy) return view;
+  return { ...view, panX: view.panX - dx * view.scale, panY: view.panY - dy * view.scale };
+};
+
+/**
+ * Converts a pointer position to the coordinates of an SVG element, taking
+ * every transform above it into account, the pan and zoom included.
+ */
+export const clientToLocal = (element: SVGGraphicsElement, clientX: number, clientY: number) => {
+  const matrix = element.getScreenCTM();
+  if (!matrix) return { x: clientX, y: clientY };
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return { x: point.x, y: point.y };
+};
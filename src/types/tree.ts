@@ -1,3 +1,6 @@
+// Binary features (+wh, -wh) are booleans, valued ones (num: sg) strings
+export type FeatureValue = string | boolean;
+
 export interface TreeNodeType {
   id: number;
   label: string;
@@ -5,20 +8,73 @@ export interface TreeNodeType {
   y: number;
   isLeaf: boolean;
   pos?: string;
+  projectedParent?: number | null;
+  index?: string;   // Coindexation subscript, e.g. 'i' on both a moved phrase and its trace
+  empty?: boolean;  // Empty category (trace, copy, PRO, Ø): drawn in the tree but not pronounced
+  functionTags?: string[];  // Treebank function tags, e.g. ['SBJ'] for NP-SBJ
+  features?: Record<string, FeatureValue>;  // Attribute–value features, e.g. { num: 'sg', wh: true } for [num: sg, +wh]
+  theta?: string;   // Theta role, e.g. 'Agent'
+  note?: string;
+  collapsed?: boolean;  // Drawn as a triangle over its words, hiding the structure below
+}
+
+export interface EdgeControlPoint {
+  x: number;
+  y: number;
 }
 
 export interface EdgeType {
   id: string;
   from: number;
   to: number;
+  controlPoint?: EdgeControlPoint;
 }
 
+// Non-dominance link drawn as an arrow from a trace or copy position to its landing site
+export interface MovementType {
+  id: string;
+  from: number;
+  to: number;
+  controlPoint?: EdgeControlPoint;
+}
+
+// Dependency arc from a head word to a dependent word; a null head marks the sentence root
+export interface DependencyType {
+  id: string;
+  head: number | null;
+  dependent: number;
+  relation: string;   // e.g. 'nsubj', 'obj', 'det'
+}
+
+export interface TagCategory {
+  tag: string;        // POS offered in the leaf selector, e.g. 'N'
+  projects?: string;  // Phrase the head projects to, e.g. 'NP'; omitted for non-projecting tags
+  bar?: string;       // Intermediate X' label, used when the tag set builds a full X-bar spine
+}
+
+export interface TagSet {
+  id: string;
+  name: string;
+  categories: TagCategory[];
+  xBarSpine: boolean; // Choosing a projecting POS creates X → X' → XP instead of X → XP
+}
+
+// Direction the sentence is written in; right to left draws the first word on the right
+export type TextDirection = 'ltr' | 'rtl';
+
 export interface TreeState {
   sentence: string;
+  tagSet: TagSet;
   nodes: TreeNodeType[];
   edges: EdgeType[];
+  movements: MovementType[];
+  dependencies: DependencyType[];
   nextId: number;
   selected: number[];
   error: string;
   linking: number | null;
-}
\ No newline at end of file
+  direction?: TextDirection;  // Chosen for this tree; without it the direction is detected from the words
+}
+
+// The tree itself, without editor state such as the selection; what is saved, shared and converted
+export type TreeModel = Pick<TreeState, 'sentence' | 'tagSet' | 'nodes' | 'edges' | 'movements' | 'dependencies' | 'nextId' | 'direction'>;